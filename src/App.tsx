@@ -1,34 +1,125 @@
-import React, { useState, useRef, useEffect } from 'react';
-import parseLLMJson from './utils/jsonParser';
-
-interface Flashcard {
-  question: string;
-  answer: string;
-}
-
-interface MCQ {
-  question: string;
-  options: string[];
-  correctAnswer: string;
-}
-
-interface MockTestQuestion extends MCQ {
-  explanation: string;
-}
-
-interface ChatMessage {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: Date;
-}
-
-type MaterialType = 'flashcards' | 'mcqs' | 'mocktest';
-
-// Agent IDs per PRD specification
-const STUDY_AGENT_ID = '68e525691cb4a3eb612e3d32';
-const TUTOR_AGENT_ID = '68e525750cde5ffc91eee6ea';
-const API_KEY = 'sk-default-obhGvAo6gG9YT9tu6ChjyXLqnw7TxSGY';
+import React, { useState, useRef, useEffect, useCallback, useMemo, useDeferredValue } from 'react';
+import parseLLMJson, { describeParse } from './utils/jsonParser';
+import { downloadBlob } from './utils';
+import {
+  REVIEW_GRADES,
+  formatInterval,
+  getDueQueue,
+  getReviewState,
+  scheduleReview,
+  withReviewState
+} from './utils/spacedRepetition';
+import {
+  createSubjectId,
+  defaultSubjectName,
+  deleteSubject,
+  getSubject,
+  listStudySessions,
+  listSubjects,
+  renameSubject,
+  saveStudySession,
+  saveSubject
+} from './utils/library';
+import { createStudySession, weakSpots, weakestTopics } from './utils/analytics';
+import {
+  buildTopicMatcher,
+  extractTopicOutline,
+  itemTopics,
+  matchesTopic,
+  resolveTopicNames,
+  tagItemsWithTopics,
+  topicSources,
+  topicTaggingInstruction
+} from './utils/topics';
+import type { RejectedItem } from './utils/studySchema';
+import { GenerationError } from './utils/repairLoop';
+import type { GenerationAttempt, ParseOutcome, StudyItem } from './utils/repairLoop';
+import { generateStudyItems, regenerateStudyItem } from './utils/chunkedGeneration';
+import type { GenerationProgress } from './utils/chunkedGeneration';
+import { DEFAULT_GENERATION_OPTIONS, buildWeakSpotInstruction } from './utils/studyPrompts';
+import { ACCEPTED_NOTE_FILES, extractTextFromFile } from './utils/noteExtraction';
+import type { ExtractedDocument } from './utils/noteExtraction';
+import {
+  PASTED_SOURCE_NAME,
+  combineSources,
+  createSource,
+  sourceTaggingInstruction,
+  sourcesFromLegacyNotes,
+  tagItemsWithSources
+} from './utils/noteSources';
+import {
+  branchThread,
+  buildSummaryPrompt,
+  buildTutorMessage,
+  createThread,
+  DEFAULT_THREAD_TITLE,
+  historyTurns,
+  pendingSummary,
+  threadsFromLegacyMessages,
+  threadTitleFromQuestion
+} from './utils/chatThreads';
+import {
+  buildPassageIndex,
+  formatPassages,
+  locateCitation,
+  searchPassages,
+  searchPassagesForAll,
+  toCitation,
+  TOP_PASSAGES
+} from './utils/retrieval';
+import {
+  buildWorksheetHtml,
+  exportAnki,
+  exportCsv,
+  exportFileName,
+  exportJson,
+  exportPlainText,
+  exportQuizletTsv
+} from './utils/exporters';
+import type { ExportBundle, ExportFormat } from './utils/exporters';
+import { ACCEPTED_IMPORT_FILES, readImportFile } from './utils/importers';
+import type { ImportedFile } from './utils/importers';
+import { extractFromText } from './utils/textFallback';
+import { EMPTY_HISTORY, recordEdit, redoEdit, undoEdit } from './utils/editHistory';
+import type { EditHistory } from './utils/editHistory';
+import { itemProblem } from './utils/itemEditing';
+import { createShuffleSeed, shuffleOptions } from './utils/optionShuffle';
+import { QUALITY_ISSUE_LABELS, checkOptionQuality } from './utils/itemQuality';
+import { loadGenerationSettings, saveGenerationSettings } from './utils/generationSettings';
+import type { GenerationSettings } from './utils/generationSettings';
+import { ProviderError, createProvider, loadProviderSettings, saveProviderSettings, streamResponse } from './providers';
+import type { ProviderSettings } from './providers';
+import LibrarySidebar from './components/LibrarySidebar';
+import SettingsPanel from './components/SettingsPanel';
+import GenerationLog from './components/GenerationLog';
+import ExtractionPreview from './components/ExtractionPreview';
+import SourceList from './components/SourceList';
+import GenerationOptionsPanel from './components/GenerationOptionsPanel';
+import MockTestView from './components/MockTestView';
+import type { MockTestRun } from './components/MockTestView';
+import ChatThreadBar from './components/ChatThreadBar';
+import CitedMessage from './components/CitedMessage';
+import Markdown from './components/Markdown';
+import ExportMenu from './components/ExportMenu';
+import ImportDialog from './components/ImportDialog';
+import MaterialEditor from './components/MaterialEditor';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import TopicOutline from './components/TopicOutline';
+import type {
+  ChatMessage,
+  ChatThread,
+  Flashcard,
+  GenerationOptions,
+  MCQ,
+  MaterialType,
+  MockTestQuestion,
+  NoteCitation,
+  NoteSource,
+  ReviewGrade,
+  StudySession,
+  Subject,
+  SubjectSummary
+} from './types';
 
 // Color palette per PRD requirement
 const COLORS = {
@@ -43,250 +134,613 @@ const COLORS = {
   text: '#212121'
 };
 
+const GRADE_STYLES: Record<ReviewGrade, string> = {
+  again: 'bg-red-500 hover:bg-red-600',
+  hard: 'bg-amber-500 hover:bg-amber-600',
+  good: 'bg-green-500 hover:bg-green-600',
+  easy: 'bg-blue-500 hover:bg-blue-600'
+};
+
+const MATERIAL_NAMES: Record<MaterialType, string> = {
+  flashcards: 'flashcards',
+  mcqs: 'MCQs',
+  mocktest: 'mock test questions'
+};
+
+// Flashcard grades further apart than this start a new review session
+const REVIEW_SITTING_GAP_MS = 30 * 60 * 1000;
+
 function App() {
-  const [notes, setNotes] = useState<string>('');
+  const [sources, setSources] = useState<NoteSource[]>([]);
+  const [activeSourceId, setActiveSourceId] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
   const [selectedMaterial, setSelectedMaterial] = useState<MaterialType | null>(null);
   const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
   const [mcqs, setMcqs] = useState<MCQ[]>([]);
   const [mockTest, setMockTest] = useState<MockTestQuestion[]>([]);
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [chatThreads, setChatThreads] = useState<ChatThread[]>(() => [createThread()]);
+  const [activeThreadId, setActiveThreadId] = useState<string>(() => chatThreads[0].id);
   const [loading, setLoading] = useState<boolean>(false);
   const [activeFlashcard, setActiveFlashcard] = useState<number>(0);
+  const [showAnswer, setShowAnswer] = useState<boolean>(false);
+  const [reviewMode, setReviewMode] = useState<'all' | 'due'>('all');
   const [mcqAnswers, setMcqAnswers] = useState<{[key: number]: string}>({});
   const [showResults, setShowResults] = useState<boolean>(false);
-  const [currentQuizPage, setCurrentQuizPage] = useState<number>(1);
+  const [mockTestRun, setMockTestRun] = useState<number>(0);
+  const [quizSeed, setQuizSeed] = useState<number>(createShuffleSeed);
   const [chatInput, setChatInput] = useState<string>('');
   const [isChatLoading, setIsChatLoading] = useState<boolean>(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const [citationHighlight, setCitationHighlight] = useState<{ sourceId: string; start: number; end: number } | null>(null);
+  const [subjects, setSubjects] = useState<SubjectSummary[]>([]);
+  const [currentSubject, setCurrentSubject] = useState<Pick<Subject, 'id' | 'name' | 'createdAt'> | null>(null);
+  const [validationReport, setValidationReport] = useState<{ type: MaterialType; accepted: number; rejected: RejectedItem[] } | null>(null);
+  const [pendingDocuments, setPendingDocuments] = useState<ExtractedDocument[]>([]);
+  const [isExtracting, setIsExtracting] = useState<boolean>(false);
+  const [pendingImport, setPendingImport] = useState<ImportedFile | null>(null);
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [editHistory, setEditHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const [regeneratingItem, setRegeneratingItem] = useState<StudyItem | null>(null);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [showAnalytics, setShowAnalytics] = useState<boolean>(false);
+  const [topicFilter, setTopicFilter] = useState<string | null>(null);
+  const [studySessions, setStudySessions] = useState<StudySession[]>([]);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(loadGenerationSettings);
+  const [generationAttempts, setGenerationAttempts] = useState<GenerationAttempt[]>([]);
+  const [generationOptions, setGenerationOptions] = useState<Record<MaterialType, GenerationOptions>>(DEFAULT_GENERATION_OPTIONS);
+  const [showGenerationOptions, setShowGenerationOptions] = useState<boolean>(false);
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
+  const [streamedItems, setStreamedItems] = useState<StudyItem[]>([]);
+  const [generationError, setGenerationError] = useState<{ type: MaterialType; message: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const notesTextareaRef = useRef<HTMLTextAreaElement>(null);
+  const skipAutosaveRef = useRef<boolean>(false);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  // Latest materials for updates that land after an await
+  const materialsRef = useRef<Record<MaterialType, StudyItem[]>>({ flashcards, mcqs, mocktest: mockTest });
+  // Timing for the study history: when the current quiz attempt began, when the
+  // current card appeared, and the review sitting that grades accumulate into
+  const quizStartedAtRef = useRef<number | null>(null);
+  const cardShownAtRef = useRef<number>(Date.now());
+  const reviewSessionRef = useRef<StudySession | null>(null);
+
+  const provider = useMemo(() => createProvider(providerSettings), [providerSettings]);
+  const notes = useMemo(() => combineSources(sources), [sources]);
+  const activeSource = sources.find(source => source.id === activeSourceId) ?? null;
+  const activeThread = chatThreads.find(thread => thread.id === activeThreadId) ?? chatThreads[0];
+  const chatMessages = activeThread.messages;
+  const materials: Record<MaterialType, StudyItem[]> = { flashcards, mcqs, mocktest: mockTest };
+  const sourceNames = useMemo(
+    () => Object.fromEntries(sources.map(source => [source.id, source.name])) as Record<string, string>,
+    [sources]
+  );
+  // Re-extracted as the notes change, behind the typing
+  const outlineSources = useDeferredValue(sources);
+  const outline = useMemo(() => extractTopicOutline(outlineSources), [outlineSources]);
+  const topicMatcher = useMemo(() => buildTopicMatcher(outline, outlineSources), [outline, outlineSources]);
+  const activeTopic = topicFilter && outline.some(topic => topic.name === topicFilter) ? topicFilter : null;
+  // Positions of the items shown under the topic filter
+  const visibleIndexes = useMemo(() => {
+    const visible = (items: StudyItem[]) => items.flatMap((item, index) => (matchesTopic(item, topicMatcher, activeTopic) ? [index] : []));
+    return { flashcards: visible(flashcards), mcqs: visible(mcqs), mocktest: visible(mockTest) } as Record<MaterialType, number[]>;
+  }, [flashcards, mcqs, mockTest, topicMatcher, activeTopic]);
+  const visibleMockTest = useMemo(() => visibleIndexes.mocktest.map(index => mockTest[index]), [visibleIndexes, mockTest]);
+  const flaggedItems = useMemo(() => {
+    const flag = (items: (MCQ | MockTestQuestion)[]) =>
+      items.map(item => ({ item, issues: checkOptionQuality(item) })).filter(entry => entry.issues.length > 0);
+    return { mcqs: flag(mcqs), mocktest: flag(mockTest) };
+  }, [mcqs, mockTest]);
+  const studiedTopics = useMemo(() => {
+    const items: StudyItem[] = selectedMaterial === 'mcqs' ? mcqs : selectedMaterial === 'mocktest' ? mockTest : flashcards;
+    return items.map(item => itemTopics(item, topicMatcher));
+  }, [selectedMaterial, flashcards, mcqs, mockTest, topicMatcher]);
 
   const generateRandomString = () => Math.random().toString(36).substring(2, 15);
 
+  const handleSaveSettings = (settings: ProviderSettings, generation: GenerationSettings) => {
+    saveProviderSettings(settings);
+    saveGenerationSettings(generation);
+    setProviderSettings(settings);
+    setGenerationSettings(generation);
+    setShowSettings(false);
+  };
+
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatMessages]);
 
+  useEffect(() => {
+    materialsRef.current = { flashcards, mcqs, mocktest: mockTest };
+  }, [flashcards, mcqs, mockTest]);
+
+  useEffect(() => {
+    cardShownAtRef.current = Date.now();
+  }, [selectedMaterial, reviewMode, activeFlashcard, flashcards]);
+
+  // Select and reveal a cited span once its source is showing in the notes editor
+  useEffect(() => {
+    const textarea = notesTextareaRef.current;
+    if (!citationHighlight || !textarea || citationHighlight.sourceId !== activeSourceId) return;
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    const linesBefore = textarea.value.slice(0, citationHighlight.start).split('\n').length - 1;
+    textarea.focus();
+    textarea.setSelectionRange(citationHighlight.start, citationHighlight.end);
+    textarea.scrollTop = Math.max(0, linesBefore * lineHeight - textarea.clientHeight / 3);
+    textarea.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setCitationHighlight(null);
+  }, [citationHighlight, activeSourceId]);
+
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    setIsExtracting(true);
+    const extracted: ExtractedDocument[] = [];
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        extracted.push(await extractTextFromFile(file));
+      } catch (error) {
+        console.error('File extraction error:', error);
+        failures.push(error instanceof Error ? error.message : `Could not read "${file.name}".`);
+      }
+    }
+    setIsExtracting(false);
+
+    setPendingDocuments(prev => [...prev, ...extracted]);
+    if (failures.length > 0) alert(failures.join('\n'));
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setNotes(e.target?.result as string);
-      };
-      reader.readAsText(file);
+    const files = Array.from(event.target.files ?? []);
+    // Allow re-selecting the same files after skipping them in the preview
+    event.target.value = '';
+    addFiles(files);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const addSource = (source: NoteSource) => {
+    setSources(prev => [...prev, source]);
+    setActiveSourceId(source.id);
+  };
+
+  // Edits go to the selected source; typing with no source starts a pasted one
+  const updateActiveSourceText = (text: string) => {
+    if (activeSource) {
+      setSources(prev => prev.map(source => (source.id === activeSource.id ? { ...source, text } : source)));
+    } else if (text) {
+      addSource(createSource(PASTED_SOURCE_NAME, text, 'pasted'));
     }
   };
 
+  const toggleSource = (id: string) => {
+    setSources(prev => prev.map(source => (source.id === id ? { ...source, enabled: !source.enabled } : source)));
+  };
+
+  const removeSource = (id: string) => {
+    const remaining = sources.filter(source => source.id !== id);
+    setSources(remaining);
+    if (activeSourceId === id) setActiveSourceId(remaining[0]?.id ?? null);
+  };
+
   const handlePaste = async () => {
     try {
       const text = await navigator.clipboard.readText();
-      setNotes(prev => prev + text);
-    } catch (err) {
+      updateActiveSourceText((activeSource?.text ?? '') + text);
+    } catch {
       alert('Could not access clipboard. Please paste manually.');
     }
   };
 
-  const clearNotes = () => {
-    setNotes('');
-    setFlashcards([]);
-    setMcqs([]);
-    setMockTest([]);
+  const stopChat = () => chatAbortRef.current?.abort();
+  const stopGeneration = () => generationAbortRef.current?.abort();
+
+  const resetStudyView = () => {
+    // In-flight replies belong to the session being left
+    stopChat();
+    stopGeneration();
     setSelectedMaterial(null);
+    setIsEditing(false);
+    setEditHistory(EMPTY_HISTORY);
+    setRegeneratingItem(null);
     setActiveFlashcard(0);
+    setShowAnswer(false);
+    setReviewMode('all');
     setMcqAnswers({});
     setShowResults(false);
+    setQuizSeed(createShuffleSeed());
+    setMockTestRun(run => run + 1);
+    quizStartedAtRef.current = null;
+    reviewSessionRef.current = null;
+    setTopicFilter(null);
+    setValidationReport(null);
+    setGenerationError(null);
+    setGenerationAttempts([]);
+  };
+
+  // Starts a fresh, unsaved session; the library keeps the previous subject
+  const clearNotes = () => {
+    setCurrentSubject(null);
+    setSources([]);
+    setActiveSourceId(null);
+    setGenerationOptions(DEFAULT_GENERATION_OPTIONS);
+    setFlashcards([]);
+    setMcqs([]);
+    setMockTest([]);
+    const thread = createThread();
+    setChatThreads([thread]);
+    setActiveThreadId(thread.id);
+    resetStudyView();
   };
 
-  const generateStudyMaterial = async (type: MaterialType) => {
+  const refreshLibrary = useCallback(async () => {
+    try {
+      setSubjects(await listSubjects());
+    } catch (error) {
+      console.error('Could not load library:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshLibrary();
+  }, [refreshLibrary]);
+
+  // Autosave the working set into the current subject, creating one on first notes
+  useEffect(() => {
+    if (skipAutosaveRef.current) {
+      skipAutosaveRef.current = false;
+      return;
+    }
+    if (!currentSubject && !sources.some(source => source.text.trim())) return;
+
+    const handle = setTimeout(() => {
+      const meta = currentSubject ?? {
+        id: createSubjectId(),
+        name: defaultSubjectName(sources[0].kind === 'pasted' ? sources[0].text : sources[0].name),
+        createdAt: Date.now()
+      };
+      if (!currentSubject) setCurrentSubject(meta);
+
+      saveSubject({
+        ...meta,
+        notes,
+        sources,
+        flashcards,
+        mcqs,
+        mockTest,
+        chatThreads,
+        activeThreadId,
+        generationOptions,
+        updatedAt: Date.now()
+      })
+        .then(refreshLibrary)
+        .catch(error => console.error('Could not save subject:', error));
+    }, 600);
+
+    return () => clearTimeout(handle);
+  }, [currentSubject, notes, sources, flashcards, mcqs, mockTest, chatThreads, activeThreadId, generationOptions, refreshLibrary]);
+
+  const openSubject = async (id: string) => {
+    try {
+      const subject = await getSubject(id);
+      if (!subject) {
+        alert('That subject could not be found.');
+        refreshLibrary();
+        return;
+      }
+      skipAutosaveRef.current = true;
+      setCurrentSubject({ id: subject.id, name: subject.name, createdAt: subject.createdAt });
+      const subjectSources = subject.sources ?? sourcesFromLegacyNotes(subject.notes);
+      setSources(subjectSources);
+      setActiveSourceId(subjectSources[0]?.id ?? null);
+      setFlashcards(subject.flashcards);
+      setMcqs(subject.mcqs);
+      setMockTest(subject.mockTest);
+      const threads = subject.chatThreads?.length ? subject.chatThreads : threadsFromLegacyMessages(subject.chatMessages);
+      setChatThreads(threads);
+      setActiveThreadId(threads.find(thread => thread.id === subject.activeThreadId)?.id ?? threads[0].id);
+      setGenerationOptions({ ...DEFAULT_GENERATION_OPTIONS, ...subject.generationOptions });
+      resetStudyView();
+    } catch (error) {
+      console.error('Could not open subject:', error);
+      alert('Could not open that subject from the local library.');
+    }
+  };
+
+  const handleRenameSubject = async (id: string, name: string) => {
+    try {
+      await renameSubject(id, name);
+      if (currentSubject?.id === id) {
+        setCurrentSubject({ ...currentSubject, name });
+      }
+      refreshLibrary();
+    } catch (error) {
+      console.error('Could not rename subject:', error);
+    }
+  };
+
+  const handleDeleteSubject = async (id: string) => {
+    try {
+      await deleteSubject(id);
+      if (currentSubject?.id === id) clearNotes();
+      refreshLibrary();
+    } catch (error) {
+      console.error('Could not delete subject:', error);
+    }
+  };
+
+  // `focus` narrows a run to excerpts of the sources with extra instructions, e.g. weak-spot practice
+  const generateStudyMaterial = async (type: MaterialType, focus?: { sources: NoteSource[]; instructions: string; label: string }) => {
     if (!notes.trim()) {
       alert('Please upload or paste notes first.');
       return;
     }
 
+    // Focus topics that name outline sections narrow the notes to those chapters
+    const { focusTopics } = generationOptions[type];
+    const outlineFocus = focusTopics.every(name => resolveTopicNames([name], outline).length > 0)
+      ? resolveTopicNames(focusTopics, outline)
+      : [];
+    const scope = focus?.sources ?? (outlineFocus.length > 0 ? topicSources(sources, outline, outlineFocus) : sources);
+
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
     setLoading(true);
     setSelectedMaterial(type);
+    setValidationReport(null);
+    setGenerationError(null);
+    setStreamedItems([]);
 
     try {
-      console.log(`Starting ${type} generation with agent ${STUDY_AGENT_ID}`);
+      console.log(`Starting ${type} generation with ${provider.label}`);
+
+      const result = await generateStudyItems({
+        provider,
+        type,
+        notes: scope === sources ? notes : combineSources(scope),
+        generation: generationOptions[type],
+        parse: parseStudyContent(type),
+        maxAttempts: generationSettings.maxAttempts,
+        chunkTokens: generationSettings.chunkTokens,
+        concurrency: generationSettings.concurrency,
+        instructions: sourceTaggingInstruction(scope) + topicTaggingInstruction(outline) + (focus?.instructions ?? ''),
+        signal: controller.signal,
+        onProgress: setGenerationProgress,
+        onItems: setStreamedItems,
+      });
+      const { rejected } = result;
+      const items = tagItemsWithTopics(tagItemsWithSources(result.items, scope), topicMatcher);
+      setGenerationAttempts(result.attempts);
+      console.log(`Valid ${type}: ${items.length}, rejected: ${rejected.length}, attempts: ${result.attempts.length}`);
+      setValidationReport(rejected.length > 0 ? { type, accepted: items.length, rejected } : null);
+      applyGeneratedItems(type, items, focus?.label);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.log(`${type} generation cancelled`);
+        return;
+      }
+      console.error('Study material agent error:', error);
+      if (error instanceof GenerationError) {
+        setGenerationAttempts(error.attempts);
+      }
 
-      const userId = `user${Date.now()}@test.com`;
-      const sessionId = `session${Date.now()}`;
+      if (generationSettings.demoMode) {
+        applyGeneratedItems(type, generateDemoData(type));
+        setGenerationError({ type, message: 'Demo mode: showing placeholder material because generation failed.' });
+      } else {
+        setGenerationError({
+          type,
+          message: error instanceof Error ? error.message : 'Study material generation failed.',
+        });
+      }
+    } finally {
+      if (generationAbortRef.current === controller) generationAbortRef.current = null;
+      setLoading(false);
+      setGenerationProgress(null);
+      setStreamedItems([]);
+    }
+  };
 
-      let agentMessage;
-      switch (type) {
-        case 'flashcards':
-          agentMessage = `Create exactly 6 flashcards in JSON format from these notes. Each flashcard must have a "question" and "answer" field. Notes: ${notes}
+  // New MCQs aimed at what the student keeps getting wrong in these notes
+  const practiceWeakSpots = async () => {
+    if (!notes.trim()) {
+      alert('Please upload or paste notes first.');
+      return;
+    }
 
-Return ONLY this exact JSON format:
-[
-  {"question": "Q1", "answer": "A1"},
-  {"question": "Q2", "answer": "A2"}
-]`;
-          break;
-        case 'mcqs':
-          agentMessage = `Generate exactly 8 multiple choice questions from these notes: ${notes}
-
-Format: Return ONLY a JSON array.
-[
-  {
-    "question": "Q1?",
-    "options": ["A", "B", "C", "D"],
-    "correctAnswer": "A"
-  }
-]
-No markdown, no explanations, just JSON.`;
-          break;
-        case 'mocktest':
-          agentMessage = `Generate exactly 10 questions (mixed Q-A Q-TF Q-MCQ) from these notes: ${notes}
-
-Format: Return ONLY a JSON array.
-[
-  {
-    "question": "Q1?",
-    "options": ["A", "B", "C", "D"],
-    "correctAnswer": "A",
-    "explanation": "Because..."
-  }
-]
-No markdown, no explanations, just JSON.`;
-          break;
-      }
+    let sessions: StudySession[];
+    try {
+      const subjectId = currentSubject?.id ?? null;
+      sessions = (await listStudySessions()).filter(session => session.subjectId === subjectId);
+    } catch (error) {
+      console.error('Could not load study history:', error);
+      alert('Could not load your study history from the local library.');
+      return;
+    }
 
-      console.log('Requesting from agent:', agentMessage.substring(0, 200));
+    const spots = weakSpots(sessions);
+    if (spots.length === 0) {
+      alert('No mistakes recorded for these notes yet. Take a quiz, a mock test or a flashcard review first.');
+      return;
+    }
+    const topics = weakestTopics(sessions, 3).filter(topic => topic.accuracy < 0.7).map(topic => topic.topic);
+
+    // Only the passages behind the missed questions, still grouped by source so items get tagged
+    const passages = searchPassagesForAll(buildPassageIndex(sources), spots.map(spot => spot.question));
+    const focusedSources = passages.length === 0 ? sources : sources.map(source => ({
+      ...source,
+      text: passages.filter(passage => passage.sourceId === source.id).map(passage => passage.text).join('\n\n'),
+    }));
+
+    await generateStudyMaterial('mcqs', {
+      sources: focusedSources,
+      instructions: buildWeakSpotInstruction(spots, topics),
+      label: 'Practice weak spots',
+    });
+  };
 
-      const response = await fetch('https://agent-prod.studio.lyzr.ai/v3/inference/chat/', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': API_KEY,
-        },
-        body: JSON.stringify({
-          user_id: userId,
-          agent_id: STUDY_AGENT_ID,
-          session_id: sessionId,
-          message: agentMessage,
-        }),
-      });
+  const selectTopic = (name: string | null) => {
+    setTopicFilter(name);
+    // Positions and results belong to the previous selection
+    setActiveFlashcard(0);
+    setShowAnswer(false);
+    setShowResults(false);
+    setMockTestRun(run => run + 1);
+  };
 
-      const responseText = await response.text();
-      console.log('Raw agent response:', responseText);
+  // Generates the selected material from one section of the notes only
+  const drillTopic = async (name: string) => {
+    selectTopic(name);
+    await generateStudyMaterial(selectedMaterial ?? 'flashcards', {
+      sources: topicSources(sources, outline, [name]),
+      instructions: '',
+      label: `Drill ${name}`,
+    });
+  };
 
-      const data = JSON.parse(responseText);
-      const content = data.response || data.message || data.content;
+  const setMaterialItems = (type: MaterialType, items: StudyItem[]) => {
+    if (type === 'flashcards') setFlashcards(withReviewState(items as Flashcard[]));
+    else if (type === 'mcqs') setMcqs(items as MCQ[]);
+    else setMockTest(items as MockTestQuestion[]);
+  };
 
-      console.log('Processed content:', content);
+  // Every change to a material is undoable, including whole generations and imports
+  const editMaterial = (type: MaterialType, items: StudyItem[], label: string, key?: string) => {
+    const before = materialsRef.current[type];
+    setEditHistory(prev => recordEdit(prev, { type, items: before, label, key }));
+    setMaterialItems(type, items);
+  };
 
-      if (!content) {
-        throw new Error('Study agent returned empty response');
-      }
+  const restoreEdit = (step: typeof undoEdit) => {
+    const result = step(editHistory, type => materialsRef.current[type]);
+    if (!result) return;
+    setEditHistory(result.history);
+    setMaterialItems(result.restore.type, result.restore.items);
+    setSelectedMaterial(result.restore.type);
+  };
 
-      let parsedData;
-      try {
-        parsedData = parseLLMJson(content);
-        console.log('Parsed with LLM JSON parser:', parsedData);
-      } catch (e) {
-        console.log('LLM JSON parser failed, trying markdown extraction');
-        // Try extracting JSON from markdown
-        const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/);
-        if (jsonMatch) {
-          parsedData = parseLLMJson(jsonMatch[1]);
-          console.log('Parsed from markdown:', parsedData);
-        } else {
-          console.log('No markdown found, trying fallback parsing');
-          // Try fallback parsing
-          parsedData = await parseAgentContent(content, type);
-        }
-      }
+  const finishEditing = () => {
+    if (selectedMaterial) {
+      const broken = materialsRef.current[selectedMaterial].filter(item => itemProblem(selectedMaterial, item)).length;
+      if (broken > 0 && !confirm(`${broken} item${broken === 1 ? ' still has' : 's still have'} problems. Stop editing anyway?`)) return;
+    }
+    setIsEditing(false);
+    // Indexes may have moved, so answers given before editing no longer line up
+    setActiveFlashcard(0);
+    setShowAnswer(false);
+    setMcqAnswers({});
+    setShowResults(false);
+    setQuizSeed(createShuffleSeed());
+    setMockTestRun(run => run + 1);
+  };
 
-      console.log(`Final parsed data for ${type}:`, parsedData);
-
-      if (type === 'flashcards') {
-        const result = Array.isArray(parsedData) ? parsedData : parsedData.flashcards || [];
-        console.log(`Setting ${result.length} flashcards`);
-
-        // Validate flashcard structure
-        const validFlashcards = result.filter(card =>
-          card &&
-          typeof card === 'object' &&
-          card.question &&
-          card.answer &&
-          typeof card.question === 'string' &&
-          typeof card.answer === 'string'
-        );
-
-        console.log(`Valid flashcards: ${validFlashcards.length}`);
-        setFlashcards(validFlashcards);
-
-      } else if (type === 'mcqs') {
-        const result = Array.isArray(parsedData) ? parsedData : parsedData.mcqs || [];
-        setMcqs(result);
-      } else if (type === 'mocktest') {
-        const result = Array.isArray(parsedData) ? parsedData : parsedData.mockTest || [];
-        setMockTest(result);
-      }
+  // Resolves to whether the item was replaced
+  const regenerateItem = async (index: number): Promise<boolean> => {
+    if (!selectedMaterial) return false;
+    if (!notes.trim()) {
+      alert('Regenerating needs the notes this material came from. Add them first.');
+      return false;
+    }
 
-    } catch (error) {
-      console.error('Study material agent error:', error);
-      const demoData = await generateDemoData(type);
-      console.log('Generated demo data:', demoData);
-
-      if (type === 'flashcards') {
-        setFlashcards(demoData);
-        console.log('Using demo flashcards');
-      } else if (type === 'mcqs') {
-        setMcqs(demoData);
-      } else if (type === 'mocktest') {
-        setMockTest(demoData);
-      }
+    const type = selectedMaterial;
+    const items = materialsRef.current[type];
+    const original = items[index];
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    setRegeneratingItem(original);
 
-      alert('Agent not responding. Generated demo materials for testing.');
+    try {
+      // Only the passages the item was about, so the replacement stays on the same topic
+      const query = `${original.question} ${'answer' in original ? original.answer : original.correctAnswer}`;
+      const passages = searchPassages(buildPassageIndex(sources), query);
+      const result = await regenerateStudyItem({
+        provider,
+        type,
+        item: original,
+        notes: passages.length > 0 ? passages.map(passage => passage.text).join('\n\n') : notes,
+        generation: generationOptions[type],
+        parse: parseStudyContent(type),
+        maxAttempts: generationSettings.maxAttempts,
+        avoidQuestions: items.filter(item => item !== original).map(item => item.question),
+        signal: controller.signal,
+      });
+      setGenerationAttempts(result.attempts);
+
+      const source = original.source ?? passages[0]?.sourceId;
+      const [replacement] = tagItemsWithTopics<StudyItem>([{
+        ...result.items[0],
+        ...(source ? { source } : {}),
+        ...(original.topics ? { topics: original.topics } : {}),
+      }], topicMatcher);
+      const current = materialsRef.current[type];
+      const position = current.indexOf(original);
+      if (position < 0) {
+        console.log('Regenerated item was removed in the meantime; discarding the replacement');
+        return false;
+      }
+      editMaterial(type, current.map(item => (item === original ? replacement : item)), `Regenerate item ${position + 1}`);
+      return true;
+    } catch (error) {
+      if (controller.signal.aborted) return false;
+      console.error('Item regeneration error:', error);
+      if (error instanceof GenerationError) setGenerationAttempts(error.attempts);
+      alert(error instanceof Error ? error.message : 'Could not regenerate that item.');
+      return false;
     } finally {
-      setLoading(false);
+      if (generationAbortRef.current === controller) generationAbortRef.current = null;
+      setRegeneratingItem(null);
     }
   };
 
-  const parseAgentContent = async (content: string, type: MaterialType): Promise<any[]> => {
-    try {
-      // Try direct JSON parsing first
-      return JSON.parse(content);
-    } catch {
-      // Fallback: Extract structured data from text
-      return await extractFromText(content, type);
+  // Replaces every item the option checks flagged, one at a time
+  const regenerateFlagged = async (type: 'mcqs' | 'mocktest') => {
+    for (const { item } of flaggedItems[type]) {
+      const index = materialsRef.current[type].indexOf(item);
+      if (index >= 0 && !(await regenerateItem(index))) break;
     }
   };
 
-  const extractFromText = async (content: string, type: MaterialType): Promise<any[]> => {
-    const items: any[] = [];
-
+  const applyGeneratedItems = (type: MaterialType, items: StudyItem[], label: string = 'Generate') => {
+    setEditHistory(prev => recordEdit(prev, { type, items: materialsRef.current[type], label }));
     if (type === 'flashcards') {
-      const lines = content.split('\n');
-      let current = {} as Flashcard;
-
-      for (const line of lines) {
-        const clean = line.trim();
-        if (clean.match(/^Question[:\-]/i)) {
-          current.question = clean.replace(/^Question[:\-]\s*/i, '');
-        } else if (clean.match(/^Answer[:\-]/i)) {
-          current.answer = clean.replace(/^Answer[:\-]\s*/i, '');
-          if (current.question && current.answer) {
-            items.push({ ...current });
-            current = {} as Flashcard;
-          }
-        }
-      }
-      return items.length > 0 ? items : generateDemoData('flashcards');
+      setFlashcards(withReviewState(items as Flashcard[]));
+      setActiveFlashcard(0);
+      setShowAnswer(false);
+    } else if (type === 'mcqs') {
+      setMcqs(items as MCQ[]);
+      setMcqAnswers({});
+      setShowResults(false);
+      setQuizSeed(createShuffleSeed());
+    } else if (type === 'mocktest') {
+      setMockTest(items as MockTestQuestion[]);
+      // A new key resets the timer, answers and results of the previous test
+      setMockTestRun(run => run + 1);
     }
-
-    return [];
   };
 
-  const parseAgentContent = async (content: string, type: MaterialType): Promise<any[]> => {
-    // If direct JSON parsing fails, try extracting structured data from text
-    console.log(`Attempting fallback extraction for ${type}`);
-    return await extractFromText(content, type);
+  // JSON first, then the plain-text layout fallback
+  const parseStudyContent = (type: MaterialType) => (content: string): ParseOutcome => {
+    const parsed = parseLLMJson(content);
+    if (parsed.success) return { data: parsed.value, error: null, detail: describeParse(parsed) };
+
+    const extracted = extractFromText(content, type);
+    if (extracted.length > 0) {
+      console.log(`Recovered ${extracted.length} ${type} from plain text`);
+      return { data: extracted, error: null, detail: 'plain-text layout' };
+    }
+    return { data: null, error: parsed.error, detail: describeParse(parsed) };
   };
 
-  const generateDemoData = async (type: MaterialType): Promise<any[]> => {
+  const generateDemoData = (type: MaterialType): StudyItem[] => {
     if (type === 'flashcards') {
       return [
         { question: "What is the main concept?", answer: "The primary idea from your notes" },
@@ -317,6 +771,7 @@ No markdown, no explanations, just JSON.`;
           question: "What learning method is most effective?",
           options: ["Spaced repetition", "Cramming", "Reading once", "Watching videos"],
           correctAnswer: "Spaced repetition",
+          type: 'mcq',
           explanation: "Reviewing material at increasing intervals strengthens long-term memory."
         }
       ];
@@ -325,100 +780,296 @@ No markdown, no explanations, just JSON.`;
     return [];
   };
 
+  const updateThread = (id: string, update: (thread: ChatThread) => ChatThread) => {
+    setChatThreads(prev => prev.map(thread => (thread.id === id ? { ...update(thread), updatedAt: Date.now() } : thread)));
+  };
+
+  const startThread = () => {
+    const thread = createThread();
+    setChatThreads(prev => [...prev, thread]);
+    setActiveThreadId(thread.id);
+  };
+
+  const branchFromMessage = (messageIndex: number) => {
+    const thread = branchThread(activeThread, messageIndex);
+    setChatThreads(prev => [...prev, thread]);
+    setActiveThreadId(thread.id);
+  };
+
+  const renameThread = (id: string, title: string) => {
+    updateThread(id, thread => ({ ...thread, title }));
+  };
+
+  const deleteThread = (id: string) => {
+    const remaining = chatThreads.filter(thread => thread.id !== id);
+    const threads = remaining.length > 0 ? remaining : [createThread()];
+    setChatThreads(threads);
+    if (id === activeThreadId) setActiveThreadId(threads[threads.length - 1].id);
+  };
+
+  const showCitation = (citation: NoteCitation) => {
+    const source = sources.find(candidate => candidate.id === citation.sourceId);
+    const span = source ? locateCitation(citation, source) : null;
+    if (!source || !span) {
+      alert('That passage is no longer in your notes.');
+      return;
+    }
+    setActiveSourceId(source.id);
+    setCitationHighlight({ sourceId: source.id, ...span });
+  };
+
   const sendChatMessage = async () => {
     if (!chatInput.trim() || !notes.trim()) {
       if (!notes.trim()) alert('Please upload or paste notes first.');
       return;
     }
 
+    const thread = activeThread;
+    const question = chatInput;
     const userMessage: ChatMessage = {
       id: generateRandomString(),
       role: 'user',
-      content: chatInput,
+      content: question,
       timestamp: new Date(),
     };
 
-    setChatMessages(prev => [...prev, userMessage]);
+    updateThread(thread.id, current => ({
+      ...current,
+      title: current.title === DEFAULT_THREAD_TITLE && current.messages.length === 0 ? threadTitleFromQuestion(question) : current.title,
+      messages: [...current.messages, userMessage],
+    }));
     setChatInput('');
     setIsChatLoading(true);
 
-    try {
-      const response = await fetch('https://agent-prod.studio.lyzr.ai/v3/inference/chat/', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': API_KEY,
-        },
-        body: JSON.stringify({
-          user_id: `user${Date.now()}@test.com`,
-          agent_id: TUTOR_AGENT_ID,
-          session_id: `tutor-${Date.now()}`,
-          message: `Based on these notes: ${notes}\n\nStudent question: ${chatInput}\n\nProvide a concise explanation that directly answers the question and references relevant parts of the notes.`,
-        }),
-      });
-
-      const data = await response.json();
-      const content = data.response || data.message || data.content || 'Thinking about that...';
+    // Only the best-matching passages go to the tutor; a vague follow-up reuses the previous question's
+    const index = buildPassageIndex(sources);
+    const previousQuestion = [...thread.messages].reverse().find(message => message.role === 'user')?.content;
+    let passages = searchPassages(index, question);
+    if (passages.length === 0 && previousQuestion) passages = searchPassages(index, previousQuestion);
+    if (passages.length === 0) passages = index.passages.slice(0, TOP_PASSAGES);
+    const citations = passages.map(toCitation);
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    const assistantId = generateRandomString();
+    let received = false;
+
+    // Replies are written to the thread they were asked in, even if the student switches away
+    const appendToReply = (text: string) => {
+      if (!received) {
+        received = true;
+        setStreamingMessageId(assistantId);
+      }
+      updateThread(thread.id, current => ({
+        ...current,
+        messages: current.messages.some(message => message.id === assistantId)
+          ? current.messages.map(message =>
+              message.id === assistantId ? { ...message, content: message.content + text } : message
+            )
+          : [...current.messages, { id: assistantId, role: 'assistant', content: text, timestamp: new Date(), citations }],
+      }));
+    };
 
-      const assistantMessage: ChatMessage = {
-        id: generateRandomString(),
-        role: 'assistant',
-        content: content,
-        timestamp: new Date(),
-      };
+    try {
+      // Fold turns that no longer fit the history budget into the running summary
+      let context = thread;
+      const pending = pendingSummary(thread);
+      if (pending) {
+        try {
+          const response = await provider.sendMessage({
+            agent: 'tutor',
+            message: buildSummaryPrompt(thread.summary, thread.messages.slice(pending.from, pending.to)),
+            signal: controller.signal,
+          });
+          if (response.content.trim()) {
+            context = { ...thread, summary: response.content.trim(), summarizedCount: pending.to };
+            const { summary, summarizedCount } = context;
+            updateThread(thread.id, current => ({ ...current, summary, summarizedCount }));
+          }
+        } catch (error) {
+          if (controller.signal.aborted) throw error;
+          console.warn('Could not summarize earlier turns; sending recent history only:', error);
+        }
+      }
 
-      setChatMessages(prev => [...prev, assistantMessage]);
+      await streamResponse(provider, {
+        agent: 'tutor',
+        message: buildTutorMessage(formatPassages(passages), context.summary, question),
+        sessionId: thread.sessionId,
+        history: historyTurns(context),
+        signal: controller.signal,
+      }, appendToReply);
+      if (!received) appendToReply('Thinking about that...');
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before the student pressed Stop
+        if (received) appendToReply(' …(stopped)');
+        return;
+      }
       console.error('Tutor agent error:', error);
-      setChatMessages(prev => [...prev, {
-        id: generateRandomString(),
-        role: 'assistant',
-        content: 'I\'m having trouble connecting to the AI tutor right now. Please try again later.',
-        timestamp: new Date(),
-      }]);
+      const message = error instanceof ProviderError
+        ? error.message
+        : 'I\'m having trouble connecting to the AI tutor right now. Please try again later.';
+      appendToReply(received ? `\n\n(${message})` : message);
     } finally {
+      if (chatAbortRef.current === controller) chatAbortRef.current = null;
+      setStreamingMessageId(null);
       setIsChatLoading(false);
     }
   };
 
-  const downloadMaterials = () => {
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      setPendingImport(await readImportFile(file));
+    } catch (error) {
+      console.error('Import error:', error);
+      alert(error instanceof Error ? error.message : `Could not read "${file.name}".`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const applyImport = (type: MaterialType, items: StudyItem[]) => {
+    applyGeneratedItems(type, items, 'Import');
+    setSelectedMaterial(type);
+    setValidationReport(null);
+    setGenerationError(null);
+    setPendingImport(null);
+  };
+
+  const exportMaterials = async (format: ExportFormat) => {
     if (!selectedMaterial) return;
+    const bundle: ExportBundle = {
+      subjectName: currentSubject?.name ?? 'Study materials',
+      flashcards,
+      mcqs,
+      mockTest,
+      sourceNames,
+    };
+    const fileName = (suffix: string, extension: string) => exportFileName(bundle.subjectName, suffix, extension);
+
+    try {
+      switch (format) {
+        case 'apkg':
+          downloadBlob(await exportAnki(bundle), fileName('anki', 'apkg'));
+          break;
+        case 'csv':
+          downloadBlob(exportCsv(selectedMaterial, bundle), fileName(selectedMaterial, 'csv'));
+          break;
+        case 'tsv':
+          downloadBlob(exportQuizletTsv(selectedMaterial, bundle), fileName(`${selectedMaterial}_quizlet`, 'tsv'));
+          break;
+        case 'json':
+          downloadBlob(exportJson(bundle), fileName('studygenius', 'json'));
+          break;
+        case 'txt':
+          downloadBlob(exportPlainText(selectedMaterial, bundle), fileName(selectedMaterial, 'txt'));
+          break;
+        case 'worksheet': {
+          if (selectedMaterial === 'flashcards') return;
+          const html = buildWorksheetHtml(selectedMaterial, bundle);
+          const printable = window.open('', '_blank');
+          if (printable) {
+            printable.document.write(html);
+            printable.document.close();
+          } else {
+            // Pop-up blocked: fall back to a file the student can open and print
+            downloadBlob(new Blob([html], { type: 'text/html' }), fileName(`${selectedMaterial}_worksheet`, 'html'));
+          }
+          break;
+        }
+      }
+    } catch (error) {
+      console.error('Export failed:', error);
+      alert(`Export failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
 
-    let content = '';
-    let filename = '';
+  const renderSourceBadge = (sourceId?: string) => {
+    if (!sourceId || !sourceNames[sourceId]) return null;
+    return (
+      <span className="inline-block mt-2 px-2 py-0.5 rounded-full bg-gray-100 text-xs font-normal text-gray-500">
+        📎 {sourceNames[sourceId]}
+      </span>
+    );
+  };
 
-    if (selectedMaterial === 'flashcards') {
-      filename = 'study_flashcards.txt';
-      flashcards.forEach((card, index) => {
-        content += `Flashcard ${index + 1}: ${card.question}\nAnswer: ${card.answer}\n\n`;
-      });
-    } else if (selectedMaterial === 'mcqs') {
-      filename = 'study_mcqs.txt';
-      mcqs.forEach((mcq, index) => {
-        content += `Question ${index + 1}: ${mcq.question}\n`;
-        mcq.options.forEach((opt, idx) => {
-          content += `${String.fromCharCode(65 + idx)}. ${opt}\n`;
-        });
-        content += `Correct answer: ${mcq.correctAnswer}\n\n`;
-      });
-    } else if (selectedMaterial === 'mocktest') {
-      filename = 'study_mocktest.txt';
-      mockTest.forEach((q, index) => {
-        content += `Question ${index + 1}: ${q.question}\n`;
-        q.options.forEach((opt, idx) => {
-          content += `${String.fromCharCode(65 + idx)}. ${opt}\n`;
-        });
-        content += `Correct answer: ${q.correctAnswer}\nExplanation: ${q.explanation}\n\n`;
-      });
+  const recordStudySession = (session: StudySession) => {
+    saveStudySession(session).catch(error => console.error('Could not record study session:', error));
+  };
+
+  const sourceNameOf = (sourceId?: string) => (sourceId ? sourceNames[sourceId] : undefined);
+
+  const openAnalytics = async () => {
+    try {
+      // Sessions keep the name a subject had at the time; show the current one
+      const names = new Map(subjects.map(subject => [subject.id, subject.name]));
+      const sessions = await listStudySessions();
+      setStudySessions(sessions.map(session => ({
+        ...session,
+        subjectName: (session.subjectId && names.get(session.subjectId)) || session.subjectName,
+      })));
+      setShowAnalytics(true);
+    } catch (error) {
+      console.error('Could not load study history:', error);
+      alert('Could not load your study history from the local library.');
+    }
+  };
+
+  const submitQuiz = () => {
+    if (!showResults) {
+      const now = Date.now();
+      recordStudySession({ ...createStudySession('quiz', currentSubject, visibleIndexes.mcqs.map(index => ({
+        question: mcqs[index].question,
+        correct: mcqAnswers[index] === mcqs[index].correctAnswer,
+        answer: mcqAnswers[index],
+        sourceName: sourceNameOf(mcqs[index].source),
+        topics: itemTopics(mcqs[index], topicMatcher),
+      })), quizStartedAtRef.current ?? now, now), seed: quizSeed });
+      quizStartedAtRef.current = null;
     }
+    setShowResults(true);
+  };
+
+  // One record per test run; re-marking a short answer overwrites it
+  const recordMockTest = (run: MockTestRun) => {
+    recordStudySession({ ...createStudySession('mocktest', currentSubject, run.results.map(result => ({
+      question: visibleMockTest[result.index].question,
+      correct: result.correct,
+      answer: result.answer,
+      sourceName: sourceNameOf(visibleMockTest[result.index].source),
+      topics: itemTopics(visibleMockTest[result.index], topicMatcher),
+    })), run.startedAt, run.endedAt, `mocktest-${run.startedAt}`), seed: run.seed });
+  };
 
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    a.click();
-    URL.revokeObjectURL(url);
+  const gradeFlashcard = (index: number, grade: ReviewGrade) => {
+    const now = Date.now();
+    const outcome = {
+      question: flashcards[index].question,
+      correct: grade !== 'again',
+      answer: grade,
+      sourceName: sourceNameOf(flashcards[index].source),
+      topics: itemTopics(flashcards[index], topicMatcher),
+    };
+    const sitting = reviewSessionRef.current;
+    const session = sitting && sitting.subjectId === (currentSubject?.id ?? null) && now - sitting.endedAt < REVIEW_SITTING_GAP_MS
+      ? { ...sitting, endedAt: now, items: [...sitting.items, outcome] }
+      : createStudySession('review', currentSubject, [outcome], cardShownAtRef.current, now);
+    reviewSessionRef.current = session;
+    recordStudySession(session);
+
+    setFlashcards(prev => prev.map((card, i) =>
+      i === index ? { ...card, review: scheduleReview(getReviewState(card, now), grade, now) } : card
+    ));
+    setShowAnswer(false);
+    if (reviewMode === 'all') {
+      setActiveFlashcard(Math.min(visibleIndexes.flashcards.length - 1, activeFlashcard + 1));
+    }
   };
 
   const renderFlashcardView = () => {
@@ -434,208 +1085,328 @@ No markdown, no explanations, just JSON.`;
       );
     }
 
+    const now = Date.now();
+    const visible = visibleIndexes.flashcards;
+    const visibleSet = new Set(visible);
+    const dueQueue = getDueQueue(flashcards, now).filter(index => visibleSet.has(index));
+    const position = Math.min(activeFlashcard, visible.length - 1);
+    const cardIndex = reviewMode === 'due' ? dueQueue[0] : visible[position];
+    const card = cardIndex !== undefined ? flashcards[cardIndex] : undefined;
+    const reviewState = card ? getReviewState(card, now) : undefined;
+
     return (
       <div className="space-y-6">
         <div className="flex items-center justify-between bg-white rounded-lg p-4 mb-6 shadow-md">
-          <span className="text-sm font-medium text-gray-600">
-            Flashcard {activeFlashcard + 1} of {flashcards.length}
-          </span>
           <div className="flex space-x-2">
             <button
-              onClick={() => setActiveFlashcard(Math.max(0, activeFlashcard - 1))}
-              disabled={activeFlashcard === 0}
-              className="px-3 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={() => { setReviewMode('all'); setShowAnswer(false); }}
+              className={`px-3 py-2 rounded-md text-sm font-medium ${
+                reviewMode === 'all' ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
             >
-              ← Previous
+              All Cards
             </button>
             <button
-              onClick={() => setActiveFlashcard(Math.min(flashcards.length - 1, activeFlashcard + 1))}
-              disabled={activeFlashcard === flashcards.length - 1}
-              className="px-3 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={() => { setReviewMode('due'); setShowAnswer(false); }}
+              className={`px-3 py-2 rounded-md text-sm font-medium ${
+                reviewMode === 'due' ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
             >
-              Next →
+              Due Today ({dueQueue.length})
             </button>
           </div>
+
+          {reviewMode === 'all' ? (
+            <div className="flex items-center space-x-2">
+              <span className="text-sm font-medium text-gray-600 mr-2">
+                Flashcard {position + 1} of {visible.length}
+              </span>
+              <button
+                onClick={() => { setActiveFlashcard(Math.max(0, position - 1)); setShowAnswer(false); }}
+                disabled={position === 0}
+                className="px-3 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                ← Previous
+              </button>
+              <button
+                onClick={() => { setActiveFlashcard(Math.min(visible.length - 1, position + 1)); setShowAnswer(false); }}
+                disabled={position === visible.length - 1}
+                className="px-3 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next →
+              </button>
+            </div>
+          ) : (
+            <span className="text-sm font-medium text-gray-600">
+              {dueQueue.length} card{dueQueue.length === 1 ? '' : 's'} left today
+            </span>
+          )}
         </div>
 
-        <div className="bg-white rounded-xl shadow-lg p-8">
-          <div className="text-center">
-            <div className="mb-6">
-              <h3 className="text-xl font-bold text-gray-800 mb-4">Question</h3>
-              <p className="text-lg text-gray-700 leading-relaxed">{flashcards[activeFlashcard].question}</p>
+        {!card || !reviewState || cardIndex === undefined ? (
+          <div className="bg-white rounded-xl shadow-lg p-8 text-center text-gray-600">
+            <p className="text-lg font-medium">All caught up! 🎉</p>
+            <p className="text-sm mt-2">No cards are due for review today.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-lg p-8">
+            <div className="text-center">
+              <div className="mb-6">
+                <h3 className="text-xl font-bold text-gray-800 mb-4">Question</h3>
+                <Markdown content={card.question} className="text-lg text-gray-700 leading-relaxed" />
+                {renderSourceBadge(card.source)}
+              </div>
+
+              <button
+                onClick={() => setShowAnswer(prev => !prev)}
+                className="px-6 py-3 bg-blue-400 text-white rounded-lg hover:bg-blue-500 font-medium transition-colors mb-6 mx-auto block"
+              >
+                {showAnswer ? 'Hide Answer' : 'Show Answer'}
+              </button>
+
+              {showAnswer && (
+                <div>
+                  <h3 className="text-xl font-bold text-gray-800 mb-4">Answer</h3>
+                  <Markdown content={card.answer} className="text-lg text-gray-700 leading-relaxed" />
+
+                  <div className="grid grid-cols-4 gap-2 mt-8">
+                    {REVIEW_GRADES.map(grade => (
+                      <button
+                        key={grade}
+                        onClick={() => gradeFlashcard(cardIndex, grade)}
+                        className={`px-3 py-2 rounded-lg text-white font-medium transition-colors ${GRADE_STYLES[grade]}`}
+                      >
+                        <span className="block capitalize">{grade}</span>
+                        <span className="block text-xs opacity-80">
+                          {formatInterval(scheduleReview(reviewState, grade, now), now)}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <p className="text-xs text-gray-400 mt-6">
+                Ease {reviewState.ease.toFixed(2)} · Interval {reviewState.interval}d · Lapses {reviewState.lapses}
+              </p>
             </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderMCQView = () => {
+    const visible = visibleIndexes.mcqs;
+    const answered = visible.filter(index => mcqAnswers[index] !== undefined).length;
 
-                        <button
-              onClick={(e) => {
-                e.preventDefault();
-                e.stopPropagation();
-                console.log('Show Answer button clicked');
-                const answerDiv = document.getElementById('answer-container');
-                const btn = document.getElementById('show-answer-btn');
-                if (answerDiv) {
-                  if (answerDiv.classList.contains('hidden')) {
-                    console.log('Showing answer');
-                    answerDiv.classList.remove('hidden');
-                    btn.textContent = 'Hide Answer';
-                  } else {
-                    console.log('Hiding answer');
-                    answerDiv.classList.add('hidden');
-                    btn.textContent = 'Show Answer';
-                  }
-                }
+    return (
+      <div className="space-y-6">
+        {visible.map((index, position) => {
+          const mcq = mcqs[index];
+          return (
+            <div key={index} className="bg-white rounded-xl shadow-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">
+                {position + 1}. <Markdown content={mcq.question} inline />
+                <div>{renderSourceBadge(mcq.source)}</div>
+              </h3>
+              <div className="space-y-3 mb-4">
+                {shuffleOptions(mcq.options, quizSeed, mcq.question).map((option, optIndex) => (
+                  <label key={optIndex} className="flex items-center space-x-3 p-3 rounded-lg hover:bg-gray-50 cursor-pointer border border-transparent hover:border-blue-200 transition-colors">
+                    <input
+                      type="radio"
+                      name={`mcq-${index}`}
+                      value={option}
+                      checked={mcqAnswers[index] === option}
+                      onChange={() => {
+                        quizStartedAtRef.current ??= Date.now();
+                        setMcqAnswers(prev => ({ ...prev, [index]: option }));
+                      }}
+                      className="w-4 h-4 text-blue-500 focus:ring-blue-400"
+                    />
+                    <Markdown content={option} inline className="text-gray-800 flex-1" />
+                  </label>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="flex items-center justify-between bg-white rounded-xl shadow-lg p-6">
+          <button
+            onClick={submitQuiz}
+            disabled={answered < visible.length}
+            className="px-6 py-3 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Submit Quiz
+          </button>
+
+          <span className="text-sm text-gray-600 font-medium">
+            Answered: {answered} / {visible.length}
+          </span>
+        </div>
+
+        {showResults && (
+          <div className="bg-white rounded-xl shadow-lg p-6">
+            <h3 className="text-lg font-semibold text-gray-800 mb-4">Quiz Results</h3>
+            <div className="space-y-3">
+              {visible.map((index, position) => {
+                const correct = mcqAnswers[index] === mcqs[index].correctAnswer;
+                return (
+                  <div key={index} className="flex items-center space-x-3 p-3 rounded-lg">
+                    <div className={`w-6 h-6 rounded-full flex items-center justify-center text-white text-xs font-bold ${
+                      correct ? 'bg-green-500' : 'bg-red-500'
+                    }`}>
+                      {correct ? '✓' : '✗'}
+                    </div>
+                    <span className={`text-sm font-medium ${
+                      correct ? 'text-green-600' : 'text-red-600'
+                    }`}>
+                      Question {position + 1}: {correct ? 'Correct' : 'Incorrect'}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+            <button
+              onClick={() => {
+                setShowResults(false);
+                setMcqAnswers({});
+                setQuizSeed(createShuffleSeed());
               }}
-              className="px-6 py-3 bg-blue-400 text-white rounded-lg hover:bg-blue-500 font-medium transition-colors mb-6 mx-auto block"
+              className="mt-4 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
             >
-              Show Answer
+              Retake Quiz
             </button>
-
-            <div id="answer-container" className="hidden">
-              <h3 className="text-xl font-bold text-gray-800 mb-4">Answer</h3>
-              <p className="text-lg text-gray-700 leading-relaxed">{flashcards[activeFlashcard].answer}</p>
-            </div>
           </div>
-        </div>
+        )}
       </div>
     );
   };
 
-  const renderMCQView = () => (
-    <div className="space-y-6">
-      {mcqs.map((mcq, index) => (
-        <div key={index} className="bg-white rounded-xl shadow-lg p-6">
-          <h3 className="text-lg font-semibold text-gray-800 mb-4">
-            {index + 1}. {mcq.question}
-          </h3>
-          <div className="space-y-3 mb-4">
-            {mcq.options.map((option, optIndex) => (
-              <label key={optIndex} className="flex items-center space-x-3 p-3 rounded-lg hover:bg-gray-50 cursor-pointer border border-transparent hover:border-blue-200 transition-colors">
-                <input
-                  type="radio"
-                  name={`mcq-${index}`}
-                  value={option}
-                  checked={mcqAnswers[index] === option}
-                  onChange={() => setMcqAnswers(prev => ({ ...prev, [index]: option }))}
-                  className="w-4 h-4 text-blue-500 focus:ring-blue-400"
-                />
-                <span className="text-gray-800 flex-1">{option}</span>
-              </label>
-            ))}
-          </div>
-        </div>
-      ))}
+  const renderTopicFilter = () => {
+    if (outline.length < 2 || !selectedMaterial || loading || isEditing || materials[selectedMaterial].length === 0) return null;
 
-      <div className="flex items-center justify-between bg-white rounded-xl shadow-lg p-6">
-        <button
-          onClick={() => setShowResults(true)}
-          disabled={Object.keys(mcqAnswers).length < mcqs.length}
-          className="px-6 py-3 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+    return (
+      <div className="flex items-center justify-end space-x-2 mb-4 text-sm">
+        <label htmlFor="topic-filter" className="text-gray-600">Topic</label>
+        <select
+          id="topic-filter"
+          value={activeTopic ?? ''}
+          onChange={(e) => selectTopic(e.target.value || null)}
+          className="px-2 py-1 border border-gray-300 rounded-md bg-white max-w-xs"
         >
-          Submit Quiz
-        </button>
-
-        <span className="text-sm text-gray-600 font-medium">
-          Answered: {Object.keys(mcqAnswers).length} / {mcqs.length}
-        </span>
+          <option value="">All topics ({materials[selectedMaterial].length})</option>
+          {outline.map(topic => (
+            <option key={topic.id} value={topic.name}>
+              {'\u00a0\u00a0'.repeat(Math.min(topic.level, 4) - 1)}{topic.name}
+            </option>
+          ))}
+        </select>
       </div>
+    );
+  };
 
-      {showResults && (
-        <div className="bg-white rounded-xl shadow-lg p-6">
-          <h3 className="text-lg font-semibold text-gray-800 mb-4">Quiz Results</h3>
-          <div className="space-y-3">
-            {mcqs.map((mcq, index) => (
-              <div key={index} className="flex items-center space-x-3 p-3 rounded-lg">
-                <div className={`w-6 h-6 rounded-full flex items-center justify-center text-white text-xs font-bold ${
-                  mcqAnswers[index] === mcq.correctAnswer ? 'bg-green-500' : 'bg-red-500'
-                }`}>
-                  {mcqAnswers[index] === mcq.correctAnswer ? '✓' : '✗'}
-                </div>
-                <span className={`text-sm font-medium ${
-                  mcqAnswers[index] === mcq.correctAnswer ? 'text-green-600' : 'text-red-600'
-                }`}>
-                  Question {index + 1}: {mcqAnswers[index] === mcq.correctAnswer ? 'Correct' : 'Incorrect'}
-                </span>
-              </div>
-            ))}
-          </div>
+  const renderGenerationError = () => {
+    if (!generationError || loading || generationError.type !== selectedMaterial) return null;
+
+    return (
+      <div className="mb-6 rounded-lg border border-red-300 bg-red-50 p-4 text-left">
+        <p className="text-sm font-semibold text-red-800">{generationError.message}</p>
+        <div className="mt-3 flex space-x-2">
           <button
-            onClick={() => {
-              setShowResults(false);
-              setMcqAnswers({});
-              setCurrentQuizPage(1);
-            }}
-            className="mt-4 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+            onClick={() => generateStudyMaterial(generationError.type)}
+            className="px-3 py-1.5 rounded-md bg-red-600 text-white text-sm hover:bg-red-700"
           >
-            Retake Quiz
+            Try again
+          </button>
+          <button
+            onClick={() => setShowSettings(true)}
+            className="px-3 py-1.5 rounded-md bg-white border border-red-300 text-red-700 text-sm hover:bg-red-100"
+          >
+            Settings
           </button>
         </div>
-      )}
-    </div>
-  );
+      </div>
+    );
+  };
 
-  const renderMockTestView = () => {
-    const startIndex = (currentQuizPage - 1) * 5;
-    const currentQuestions = mockTest.slice(startIndex, startIndex + 5);
+  const renderQualityReport = () => {
+    if (selectedMaterial !== 'mcqs' && selectedMaterial !== 'mocktest') return null;
+    const flagged = flaggedItems[selectedMaterial];
+    if (flagged.length === 0 || loading || isEditing) return null;
 
+    const kinds = [...new Set(flagged.flatMap(entry => entry.issues.map(issue => QUALITY_ISSUE_LABELS[issue.kind])))];
     return (
-      <div className="space-y-6">
-        <div className="flex items-center justify-between bg-white rounded-xl shadow-lg p-4">
-          <span className="text-sm font-medium text-gray-600">
-            Questions {startIndex + 1}-{Math.min(startIndex + 5, mockTest.length)} of {mockTest.length}
-          </span>
-          <div className="flex space-x-2">
-            <button
-              onClick={() => setCurrentQuizPage(Math.max(1, currentQuizPage - 1))}
-              disabled={currentQuizPage === 1}
-              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            >
-              ← Previous
+      <div className="mb-6 rounded-lg border border-amber-300 bg-amber-50 p-4 text-left">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-sm text-amber-800">
+            <span className="font-semibold">
+              {flagged.length} question{flagged.length === 1 ? '' : 's'} flagged by the quality checks
+            </span>
+            : {kinds.join(', ')}
+          </p>
+          <div className="flex items-center space-x-3 text-sm">
+            <button onClick={() => setIsEditing(true)} className="text-amber-800 hover:underline">
+              Review
             </button>
             <button
-              onClick={() => setCurrentQuizPage(Math.min(Math.ceil(mockTest.length / 5), currentQuizPage + 1))}
-              disabled={currentQuizPage >= Math.ceil(mockTest.length / 5)}
-              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              onClick={() => regenerateFlagged(selectedMaterial)}
+              disabled={regeneratingItem !== null}
+              className="px-3 py-1 rounded-md bg-amber-500 text-white hover:bg-amber-600 disabled:opacity-50"
             >
-              Next →
+              {regeneratingItem ? '⏳ Regenerating...' : `↻ Regenerate ${flagged.length === 1 ? 'it' : 'all'}`}
             </button>
           </div>
         </div>
+      </div>
+    );
+  };
 
-        {currentQuestions.map((question, index) => (
-          <div key={startIndex + index} className="bg-white rounded-xl shadow-lg p-6">
-            <h3 className="text-lg font-semibold text-gray-800 mb-4">
-              {startIndex + index + 1}. {question.question}
-            </h3>
-            <div className="space-y-3 mb-6">
-              {question.options.map((option, optIndex) => (
-                <label key={optIndex} className="flex items-center space-x-3 p-3 rounded-lg hover:bg-gray-50 cursor-pointer border border-transparent hover:border-blue-200 transition-colors">
-                  <input
-                    type="radio"
-                    name={`mock-q-${startIndex + index}`}
-                    value={option}
-                    className="w-4 h-4 text-blue-500 focus:ring-blue-400"
-                  />
-                  <span className="text-gray-800 flex-1">{option}</span>
-                </label>
-              ))}
-            </div>
+  const renderValidationReport = () => {
+    if (!validationReport || loading || validationReport.type !== selectedMaterial) return null;
 
-            <details className="bg-gray-50 rounded-lg p-4">
-              <summary className="cursor-pointer text-blue-600 hover:text-blue-800 font-medium transition-colors">
-                Show Answer & Explanation
-              </summary>
-              <div className="mt-4 space-y-3">
-                <div>
-                  <span className="font-semibold text-gray-800">Correct Answer: </span>
-                  <span className="text-green-600 font-medium">{question.correctAnswer}</span>
-                </div>
-                <div>
-                  <span className="font-semibold text-gray-800">Explanation: </span>
-                  <p className="text-gray-700 mt-2 leading-relaxed">{question.explanation}</p>
-                </div>
+    const describe = (item: RejectedItem) => {
+      const raw = item.raw as { question?: unknown } | null;
+      const question = raw && typeof raw === 'object' && typeof raw.question === 'string' ? raw.question : '';
+      const label = item.index >= 0 ? `Item ${item.index + 1}` : 'Response';
+      return question ? `${label} ("${question.substring(0, 60)}")` : label;
+    };
+
+    return (
+      <div className="mb-6 rounded-lg border border-amber-300 bg-amber-50 p-4 text-left">
+        <div className="flex items-start justify-between">
+          <p className="text-sm font-semibold text-amber-800">
+            Kept {validationReport.accepted} item{validationReport.accepted === 1 ? '' : 's'}, rejected {validationReport.rejected.length} malformed item{validationReport.rejected.length === 1 ? '' : 's'}
+          </p>
+          <button onClick={() => setValidationReport(null)} className="text-amber-700 hover:text-amber-900 text-sm">✕</button>
+        </div>
+        <ul className="mt-2 space-y-1 text-sm text-amber-900 list-disc list-inside">
+          {validationReport.rejected.map((item, index) => (
+            <li key={index}>{describe(item)}: {item.reason}</li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  // Items that have finished streaming in while the rest are still being written
+  const renderStreamedItems = () => {
+    if (streamedItems.length === 0 || !selectedMaterial) return null;
+    const requested = generationOptions[selectedMaterial].count;
+    return (
+      <div className="w-full max-w-2xl mt-6 text-left">
+        <p className="text-sm text-gray-500 mb-2">{streamedItems.length} of {requested} ready</p>
+        <ol className="space-y-2">
+          {streamedItems.map((item, index) => (
+            <li key={index} className="rounded-lg border border-gray-200 bg-white p-3 text-sm">
+              <div className="font-medium text-gray-800">{index + 1}. {item.question}</div>
+              <div className="text-gray-500 mt-1">
+                {'answer' in item ? item.answer : item.options.join(' · ') || 'Short answer'}
               </div>
-            </details>
-          </div>
-        ))}
+            </li>
+          ))}
+        </ol>
       </div>
     );
   };
@@ -643,11 +1414,32 @@ No markdown, no explanations, just JSON.`;
   const renderContent = () => {
     if (loading) {
       return (
-        <div className="flex items-center justify-center h-64">
+        <div className="flex flex-col items-center justify-center min-h-64 py-8">
           <div className="text-center">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
-            <p className="text-gray-600">Generating study material...</p>
+            <p className="text-gray-600">
+              {generationProgress && generationProgress.total > 1
+                ? generationProgress.phase === 'balancing'
+                  ? `Topping up to the requested count... (${generationProgress.completed}/${generationProgress.total})`
+                  : `Generating from ${generationProgress.total} chunks... (${generationProgress.completed}/${generationProgress.total})`
+                : 'Generating study material...'}
+            </p>
+            {generationProgress && generationProgress.total > 1 && (
+              <div className="w-64 h-2 bg-gray-200 rounded-full mt-3 mx-auto overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 transition-all"
+                  style={{ width: `${(generationProgress.completed / generationProgress.total) * 100}%` }}
+                />
+              </div>
+            )}
+            <button
+              onClick={stopGeneration}
+              className="mt-4 px-4 py-2 rounded-lg bg-gray-200 text-gray-700 text-sm hover:bg-gray-300 transition-colors"
+            >
+              ■ Stop
+            </button>
           </div>
+          {renderStreamedItems()}
         </div>
       );
     }
@@ -658,19 +1450,48 @@ No markdown, no explanations, just JSON.`;
           <div className="mb-4">
             <h2 className="text-2xl font-semibold text-gray-700 mb-2">Welcome to StudyGenius</h2>
             <p className="text-lg mb-4">Upload or paste your notes above, then select a study material type to get started.</p>
-            <p className="text-sm">Use the Study Material Agent (68e525691cb4a3eb612e3d32) for flashcards, MCQs, and mock tests.</p>
+            <p className="text-sm">Flashcards, MCQs, and mock tests are generated with {provider.label}.</p>
           </div>
         </div>
       );
     }
 
+    if (isEditing) {
+      return (
+        <MaterialEditor
+          type={selectedMaterial}
+          items={materials[selectedMaterial]}
+          canUndo={editHistory.past.length > 0}
+          canRedo={editHistory.future.length > 0}
+          regeneratingIndex={regeneratingItem ? materials[selectedMaterial].indexOf(regeneratingItem) : null}
+          onChange={(items, label, key) => editMaterial(selectedMaterial, items, label, key)}
+          onRegenerate={regenerateItem}
+          onUndo={() => restoreEdit(undoEdit)}
+          onRedo={() => restoreEdit(redoEdit)}
+          onDone={finishEditing}
+          renderSourceBadge={renderSourceBadge}
+        />
+      );
+    }
+
+    if (activeTopic && materials[selectedMaterial].length > 0 && visibleIndexes[selectedMaterial].length === 0) {
+      return (
+        <div className="text-center text-gray-500 py-12">
+          <p>Nothing here covers "{activeTopic}" yet.</p>
+          <button onClick={() => drillTopic(activeTopic)} className="mt-3 px-4 py-2 rounded-lg bg-blue-500 text-white text-sm hover:bg-blue-600">
+            🎯 Drill this topic
+          </button>
+        </div>
+      );
+    }
+
     switch (selectedMaterial) {
       case 'flashcards':
         return flashcards.length > 0 ? renderFlashcardView() : <p className="text-center text-gray-500 py-12">No flashcards generated.</p>;
       case 'mcqs':
         return mcqs.length > 0 ? renderMCQView() : <p className="text-center text-gray-500 py-12">No MCQs generated.</p>;
       case 'mocktest':
-        return mockTest.length > 0 ? renderMockTestView() : <p className="text-center text-gray-500 py-12">No mock test questions generated.</p>;
+        return mockTest.length > 0 ? <MockTestView key={mockTestRun} questions={visibleMockTest} renderSourceBadge={renderSourceBadge} onFinish={recordMockTest} /> : <p className="text-center text-gray-500 py-12">No mock test questions generated.</p>;
       default:
         return null;
     }
@@ -681,6 +1502,61 @@ No markdown, no explanations, just JSON.`;
       className="flex h-screen"
       style={{ backgroundColor: COLORS.background }}
     >
+      {showSettings && (
+        <SettingsPanel
+          settings={providerSettings}
+          generationSettings={generationSettings}
+          onSave={handleSaveSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {pendingDocuments.length > 0 && (
+        <ExtractionPreview
+          key={`${pendingDocuments[0].fileName}-${pendingDocuments.length}`}
+          document={pendingDocuments[0]}
+          remaining={pendingDocuments.length - 1}
+          onAdd={(text) => {
+            const document = pendingDocuments[0];
+            addSource(createSource(document.fileName, text, document.kind));
+            setPendingDocuments(prev => prev.slice(1));
+          }}
+          onCancel={() => setPendingDocuments(prev => prev.slice(1))}
+        />
+      )}
+
+      {showAnalytics && (
+        <AnalyticsDashboard
+          sessions={studySessions}
+          currentSubjectId={currentSubject?.id ?? null}
+          onClose={() => setShowAnalytics(false)}
+          onPracticeWeakSpots={() => {
+            setShowAnalytics(false);
+            practiceWeakSpots();
+          }}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportDialog
+          file={pendingImport}
+          existing={materials}
+          initialType={selectedMaterial ?? 'flashcards'}
+          onImport={applyImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {/* Library Sidebar */}
+      <LibrarySidebar
+        subjects={subjects}
+        currentSubjectId={currentSubject?.id ?? null}
+        onOpen={openSubject}
+        onNew={clearNotes}
+        onRename={handleRenameSubject}
+        onDelete={handleDeleteSubject}
+      />
+
       {/* Main Content */}
       <div className="flex-1 overflow-y-auto p-6">
         <div className="max-w-4xl mx-auto">
@@ -690,11 +1566,35 @@ No markdown, no explanations, just JSON.`;
           >
             StudyGenius
           </h1>
+          <div className="fixed top-4 right-84 flex space-x-2">
+            <button
+              onClick={openAnalytics}
+              className="px-3 py-2 rounded-md bg-white shadow text-sm text-gray-700 hover:bg-gray-50"
+              title="Accuracy, weak spots and study time"
+            >
+              📊 Progress
+            </button>
+            <button
+              onClick={() => setShowSettings(true)}
+              className="px-3 py-2 rounded-md bg-white shadow text-sm text-gray-700 hover:bg-gray-50"
+              title="AI provider settings"
+            >
+              ⚙️ {provider.label}
+            </button>
+          </div>
+          {currentSubject && (
+            <p className="text-center text-sm text-gray-500 -mt-6 mb-6">
+              Saved locally as <span className="font-medium text-gray-700">{currentSubject.name}</span>
+            </p>
+          )}
 
           {/* Notes Input Section */}
           <div
-            className="rounded-xl shadow-lg p-6 mb-8"
+            className={`rounded-xl shadow-lg p-6 mb-8 transition-shadow ${isDragging ? 'ring-4 ring-blue-300' : ''}`}
             style={{ backgroundColor: COLORS.surface }}
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
           >
             <h2 className="text-xl font-semibold mb-4" style={{ color: COLORS.text }}>
               Upload or Paste Your Notes
@@ -705,16 +1605,18 @@ No markdown, no explanations, just JSON.`;
                 type="file"
                 ref={fileInputRef}
                 onChange={handleFileUpload}
-                accept=".txt,.pdf,.doc,.docx"
+                accept={ACCEPTED_NOTE_FILES}
+                multiple
                 className="hidden"
               />
 
               <button
                 onClick={() => fileInputRef.current?.click()}
-                className="px-4 py-2 rounded-md font-medium transition-colors"
+                disabled={isExtracting}
+                className="px-4 py-2 rounded-md font-medium transition-colors disabled:opacity-50"
                 style={{ backgroundColor: COLORS.primary, color: COLORS.surface }}
               >
-                📁 Upload File
+                {isExtracting ? '⏳ Reading files...' : '📁 Upload Files'}
               </button>
 
               <button
@@ -725,6 +1627,13 @@ No markdown, no explanations, just JSON.`;
                 📋 Paste from Clipboard
               </button>
 
+              <button
+                onClick={() => addSource(createSource(`${PASTED_SOURCE_NAME} ${sources.length + 1}`, '', 'pasted'))}
+                className="px-4 py-2 rounded-md font-medium transition-colors bg-gray-100 hover:bg-gray-200 text-gray-700"
+              >
+                ➕ New Note
+              </button>
+
               <button
                 onClick={clearNotes}
                 className="px-4 py-2 rounded-md font-medium transition-colors hover:bg-red-600"
@@ -734,15 +1643,36 @@ No markdown, no explanations, just JSON.`;
               </button>
             </div>
 
+            <SourceList
+              sources={sources}
+              activeSourceId={activeSourceId}
+              onSelect={setActiveSourceId}
+              onToggle={toggleSource}
+              onRemove={removeSource}
+            />
+
             <textarea
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              placeholder="Paste your notes here or upload a file..."
+              ref={notesTextareaRef}
+              value={activeSource?.text ?? ''}
+              onChange={(e) => updateActiveSourceText(e.target.value)}
+              placeholder="Paste your notes here, upload files, or drop them onto this panel..."
               className="w-full h-32 p-4 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 resize-none"
               style={{ borderColor: COLORS.primary }}
             />
           </div>
 
+          {outline.length > 0 && (
+            <TopicOutline
+              outline={outline}
+              itemTopics={studiedTopics}
+              materialName={MATERIAL_NAMES[selectedMaterial ?? 'flashcards']}
+              activeTopic={activeTopic}
+              disabled={loading}
+              onSelect={selectTopic}
+              onDrill={drillTopic}
+            />
+          )}
+
           {/* Material Type Selection */}
           <div
             className="rounded-xl shadow-lg p-6 mb-8"
@@ -779,6 +1709,15 @@ No markdown, no explanations, just JSON.`;
                 ❓ MCQs ({mcqs.length})
               </button>
 
+              <button
+                onClick={practiceWeakSpots}
+                disabled={loading}
+                className="px-6 py-3 rounded-lg font-medium transition-colors bg-amber-50 border border-amber-300 text-amber-800 hover:bg-amber-100 disabled:opacity-50"
+                title="New MCQs on the questions and concepts you got wrong before"
+              >
+                🎯 Practice my weak spots
+              </button>
+
               <button
                 onClick={() => generateStudyMaterial('mocktest')}
                 disabled={loading}
@@ -791,16 +1730,54 @@ No markdown, no explanations, just JSON.`;
               >
                 📝 Mock Test ({mockTest.length})
               </button>
-            </div>
 
-            {(selectedMaterial && (flashcards.length > 0 || mcqs.length > 0 || mockTest.length > 0)) && (
               <button
-                onClick={downloadMaterials}
-                className="px-6 py-2 rounded-lg font-medium transition-colors"
-                style={{ backgroundColor: COLORS.success, color: COLORS.surface }}
+                onClick={() => setShowGenerationOptions(prev => !prev)}
+                className="px-4 py-3 rounded-lg font-medium transition-colors bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"
+              >
+                🎛️ Options {showGenerationOptions ? '▲' : '▼'}
+              </button>
+
+              <input
+                type="file"
+                ref={importInputRef}
+                onChange={handleImportFile}
+                accept={ACCEPTED_IMPORT_FILES}
+                className="hidden"
+              />
+              <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={loading || isImporting}
+                className="px-4 py-3 rounded-lg font-medium transition-colors bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                title="Import an Anki deck, CSV/TSV, StudyGenius JSON or Q:/A: text"
               >
-                💾 Download Materials
+                {isImporting ? '⏳ Reading...' : '📥 Import'}
               </button>
+            </div>
+
+            {showGenerationOptions && (
+              <GenerationOptionsPanel
+                options={generationOptions}
+                initialType={selectedMaterial ?? 'flashcards'}
+                suggestedTopics={outline.map(topic => topic.name)}
+                onChange={(type, options) => setGenerationOptions(prev => ({ ...prev, [type]: options }))}
+              />
+            )}
+
+            {selectedMaterial && !loading && (
+              <div className="flex flex-wrap gap-3">
+                {!isEditing && (
+                  <button
+                    onClick={() => setIsEditing(true)}
+                    className="px-6 py-2 rounded-lg font-medium bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    ✏️ Edit
+                  </button>
+                )}
+                {(flashcards.length > 0 || mcqs.length > 0 || mockTest.length > 0) && (
+                  <ExportMenu material={selectedMaterial} onExport={exportMaterials} />
+                )}
+              </div>
             )}
           </div>
 
@@ -809,7 +1786,12 @@ No markdown, no explanations, just JSON.`;
             className="rounded-xl shadow-lg p-6"
             style={{ backgroundColor: COLORS.surface }}
           >
+            {renderTopicFilter()}
+            {renderGenerationError()}
+            {renderValidationReport()}
+            {renderQualityReport()}
             {renderContent()}
+            {!loading && generationAttempts.length > 0 && <GenerationLog attempts={generationAttempts} />}
           </div>
         </div>
       </div>
@@ -824,12 +1806,26 @@ No markdown, no explanations, just JSON.`;
             className="text-lg font-semibold"
             style={{ color: COLORS.text }}
           >
-            🎓 AI Tutor Agent ({TUTOR_AGENT_ID})
+            🎓 AI Tutor
           </h3>
-          <p className="text-sm text-gray-600">68e525750cde5ffc91eee6ea</p>
+          <p className="text-sm text-gray-600">{provider.label}</p>
+          <ChatThreadBar
+            threads={chatThreads}
+            activeThreadId={activeThread.id}
+            disabled={isChatLoading}
+            onSelect={setActiveThreadId}
+            onNew={startThread}
+            onRename={renameThread}
+            onDelete={deleteThread}
+          />
         </div>
 
         <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {activeThread.summarizedCount ? (
+            <p className="text-xs text-center text-gray-500" title={activeThread.summary}>
+              The tutor sees a summary of the first {activeThread.summarizedCount} messages
+            </p>
+          ) : null}
           {chatMessages.length === 0 ? (
             <div
               className="text-center px-4 py-6 rounded-lg"
@@ -840,7 +1836,7 @@ No markdown, no explanations, just JSON.`;
               </p>
             </div>
           ) : (
-            chatMessages.map((message) => (
+            chatMessages.map((message, index) => (
               <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                 <div
                   className={`max-w-[80%] p-3 rounded-lg text-sm ${
@@ -850,15 +1846,30 @@ No markdown, no explanations, just JSON.`;
                   }`}
                   style={{ backgroundColor: message.role === 'user' ? COLORS.primary : COLORS.background }}
                 >
-                  <div className="whitespace-pre-wrap">{message.content}</div>
-                  <div className="text-xs opacity-70 mt-1">
-                    {message.timestamp.toLocaleTimeString()}
+                  <div className={message.role === 'user' ? 'whitespace-pre-wrap' : 'break-words'}>
+                    {message.role === 'user' ? message.content : message.citations?.length ? (
+                      <CitedMessage
+                        content={message.content}
+                        citations={message.citations}
+                        sourceNames={sourceNames}
+                        onCite={showCitation}
+                      />
+                    ) : <Markdown content={message.content} />}
+                    {message.id === streamingMessageId && <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-500 animate-pulse"></span>}
+                  </div>
+                  <div className="flex items-center justify-between text-xs opacity-70 mt-1">
+                    <span>{message.timestamp.toLocaleTimeString()}</span>
+                    {message.role === 'assistant' && !isChatLoading && (
+                      <button onClick={() => branchFromMessage(index)} className="ml-3 hover:underline" title="Continue in a new chat from this answer">
+                        Branch
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
             ))
           )}
-          {isChatLoading && (
+          {isChatLoading && !streamingMessageId && (
             <div className="flex justify-start">
               <div
                 className="p-3 rounded-lg text-sm text-gray-800"
@@ -880,23 +1891,29 @@ No markdown, no explanations, just JSON.`;
               type="text"
               value={chatInput}
               onChange={(e) => setChatInput(e.target.value)}
-              onKeyPress={(e) => e.key === 'Enter' && sendChatMessage()}
+              onKeyDown={(e) => e.key === 'Enter' && !isChatLoading && sendChatMessage()}
               placeholder="Ask about your notes..."
-              className="flex-1 px-3 py-3 border rounded-lg focus:outline-none focus:ring-2 text-sm"
-              style={{
-                borderColor: 'rgba(41, 121, 255, 0.2)',
-                focusRingColor: COLORS.primary
-              }}
+              className="flex-1 px-3 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              style={{ borderColor: 'rgba(41, 121, 255, 0.2)' }}
               disabled={isChatLoading || !notes.trim()}
             />
-            <button
-              onClick={sendChatMessage}
-              disabled={isChatLoading || !notes.trim() || !chatInput.trim()}
-              className="px-4 py-3 rounded-lg text-white transition-colors disabled:opacity-50"
-              style={{ backgroundColor: COLORS.primary }}
-            >
-              Send
-            </button>
+            {isChatLoading ? (
+              <button
+                onClick={stopChat}
+                className="px-4 py-3 rounded-lg bg-gray-700 text-white transition-colors hover:bg-gray-800"
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={sendChatMessage}
+                disabled={!notes.trim() || !chatInput.trim()}
+                className="px-4 py-3 rounded-lg text-white transition-colors disabled:opacity-50"
+                style={{ backgroundColor: COLORS.primary }}
+              >
+                Send
+              </button>
+            )}
           </div>
         </div>
       </div>
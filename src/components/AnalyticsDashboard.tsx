@@ -0,0 +1,216 @@
+import { useMemo, useState } from 'react';
+import type { StudyActivity, StudySession } from '../types';
+import {
+  ACTIVITY_LABELS,
+  accuracyByDay,
+  formatDuration,
+  mostMissedQuestions,
+  sessionAccuracy,
+  studyStreak,
+  studyTotals,
+  timeSpent,
+  weakestTopics
+} from '../utils/analytics';
+
+interface AnalyticsDashboardProps {
+  sessions: StudySession[];
+  currentSubjectId: string | null;
+  onClose: () => void;
+  onPracticeWeakSpots: () => void;
+}
+
+type Scope = 'subject' | 'all';
+
+const CHART_DAYS = 14;
+const RECENT_SESSIONS = 8;
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function accuracyColor(value: number): string {
+  return value >= 0.7 ? 'bg-green-500' : value >= 0.5 ? 'bg-amber-400' : 'bg-red-500';
+}
+
+// Progress across every recorded quiz, mock test and flashcard review
+function AnalyticsDashboard({ sessions, currentSubjectId, onClose, onPracticeWeakSpots }: AnalyticsDashboardProps) {
+  const [scope, setScope] = useState<Scope>(currentSubjectId ? 'subject' : 'all');
+
+  const scoped = useMemo(
+    () => (scope === 'subject' ? sessions.filter(session => session.subjectId === currentSubjectId) : sessions),
+    [sessions, scope, currentSubjectId]
+  );
+  const totals = useMemo(() => studyTotals(scoped), [scoped]);
+  const days = useMemo(() => accuracyByDay(scoped, CHART_DAYS), [scoped]);
+  const topics = useMemo(() => weakestTopics(scoped), [scoped]);
+  const missed = useMemo(() => mostMissedQuestions(scoped), [scoped]);
+  const streak = useMemo(() => studyStreak(scoped), [scoped]);
+  const time = useMemo(() => timeSpent(scoped), [scoped]);
+  const recent = scoped.slice(-RECENT_SESSIONS).reverse();
+  const busiestDay = Math.max(1, ...days.map(day => day.total));
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl p-6 max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-800">📊 Your progress</h2>
+          <div className="flex items-center space-x-2">
+            {currentSubjectId && (
+              <div className="flex rounded-md bg-gray-100 p-0.5 text-sm">
+                {(['subject', 'all'] as Scope[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setScope(option)}
+                    className={`px-3 py-1 rounded ${scope === option ? 'bg-white shadow text-gray-800' : 'text-gray-500'}`}
+                  >
+                    {option === 'subject' ? 'This subject' : 'All subjects'}
+                  </button>
+                ))}
+              </div>
+            )}
+            <button onClick={onClose} className="px-2 text-gray-400 hover:text-gray-600" title="Close">✕</button>
+          </div>
+        </div>
+
+        {scoped.length === 0 ? (
+          <p className="text-center text-gray-500 py-16">
+            Nothing recorded yet. Submit a quiz, finish a mock test or grade some flashcards to see your progress here.
+          </p>
+        ) : (
+          <div className="flex-1 overflow-y-auto mt-4 space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="rounded-lg bg-gray-50 p-3">
+                <div className="text-xs text-gray-500">Accuracy</div>
+                <div className="text-2xl font-semibold text-gray-800">{percent(totals.accuracy)}</div>
+                <div className="text-xs text-gray-500">{totals.correct} of {totals.answered} correct</div>
+              </div>
+              <div className="rounded-lg bg-gray-50 p-3">
+                <div className="text-xs text-gray-500">Sessions</div>
+                <div className="text-2xl font-semibold text-gray-800">{totals.sessions}</div>
+                <div className="text-xs text-gray-500">{totals.answered} items answered</div>
+              </div>
+              <div className="rounded-lg bg-gray-50 p-3">
+                <div className="text-xs text-gray-500">Time studied</div>
+                <div className="text-2xl font-semibold text-gray-800">{formatDuration(time.total)}</div>
+                <div className="text-xs text-gray-500">{formatDuration(time.lastWeek)} in the last 7 days</div>
+              </div>
+              <div className="rounded-lg bg-gray-50 p-3">
+                <div className="text-xs text-gray-500">Study streak</div>
+                <div className="text-2xl font-semibold text-gray-800">🔥 {streak.current} day{streak.current === 1 ? '' : 's'}</div>
+                <div className="text-xs text-gray-500">Longest: {streak.longest}</div>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">Accuracy over the last {CHART_DAYS} days</h3>
+              <div className="flex items-end h-32 gap-1 border-b border-gray-200">
+                {days.map(day => {
+                  const accuracy = day.total > 0 ? day.correct / day.total : 0;
+                  return (
+                    <div
+                      key={day.day}
+                      className="flex-1 flex flex-col justify-end h-full"
+                      title={day.total > 0 ? `${day.day}: ${percent(accuracy)} of ${day.total}` : `${day.day}: no study`}
+                    >
+                      {day.total > 0 && (
+                        <div
+                          className={`rounded-t ${accuracyColor(accuracy)}`}
+                          style={{ height: `${Math.max(8, (day.total / busiestDay) * 100)}%`, opacity: 0.4 + accuracy * 0.6 }}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="flex justify-between text-xs text-gray-400 mt-1">
+                <span>{new Date(days[0].timestamp).toLocaleDateString()}</span>
+                <span>Bar height: items answered · colour: accuracy</span>
+                <span>Today</span>
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-6">
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Weakest topics</h3>
+                {topics.length === 0 ? (
+                  <p className="text-sm text-gray-500">Answer a few more questions per topic to see weak spots.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {topics.map(topic => (
+                      <li key={topic.topic} className="text-sm">
+                        <div className="flex justify-between text-gray-700">
+                          <span className="truncate mr-2">{topic.topic}</span>
+                          <span className="text-gray-500">{percent(topic.accuracy)} · {topic.total}</span>
+                        </div>
+                        <div className="h-1.5 rounded bg-gray-100 mt-1">
+                          <div className={`h-full rounded ${accuracyColor(topic.accuracy)}`} style={{ width: percent(topic.accuracy) }} />
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Time by activity</h3>
+                <ul className="space-y-1 text-sm text-gray-700">
+                  {(Object.keys(ACTIVITY_LABELS) as StudyActivity[]).map(activity => (
+                    <li key={activity} className="flex justify-between">
+                      <span>{ACTIVITY_LABELS[activity]}</span>
+                      <span className="text-gray-500">{formatDuration(time.byActivity[activity])}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold text-gray-700">Most missed questions</h3>
+                {scope === 'subject' && missed.length > 0 && (
+                  <button onClick={onPracticeWeakSpots} className="text-sm text-blue-600 hover:underline">
+                    🎯 Practice these
+                  </button>
+                )}
+              </div>
+              {missed.length === 0 ? (
+                <p className="text-sm text-gray-500">No misses yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 text-sm">
+                  {missed.map((question, index) => (
+                    <li key={index} className="flex items-center justify-between py-2">
+                      <div className="min-w-0 mr-3">
+                        <div className="truncate text-gray-800" title={question.question}>{question.question}</div>
+                        {scope === 'all' && <div className="text-xs text-gray-400">{question.subjectName}</div>}
+                      </div>
+                      <span className="shrink-0 text-red-600">✗ {question.misses} of {question.attempts}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">Recent sessions</h3>
+              <ul className="divide-y divide-gray-100 text-sm">
+                {recent.map(session => (
+                  <li key={session.id} className="flex items-center justify-between py-2 text-gray-700">
+                    <span>
+                      {ACTIVITY_LABELS[session.activity]}
+                      {scope === 'all' && <span className="text-gray-400"> · {session.subjectName}</span>}
+                    </span>
+                    <span className="text-gray-500">
+                      {new Date(session.startedAt).toLocaleString()} · {session.items.length} items · {percent(sessionAccuracy(session))}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default AnalyticsDashboard;
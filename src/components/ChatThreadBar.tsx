@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import type { ChatThread } from '../types';
+
+interface ChatThreadBarProps {
+  threads: ChatThread[];
+  activeThreadId: string;
+  disabled: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+function ChatThreadBar({ threads, activeThreadId, disabled, onSelect, onNew, onRename, onDelete }: ChatThreadBarProps) {
+  const [editing, setEditing] = useState<boolean>(false);
+  const [draftTitle, setDraftTitle] = useState<string>('');
+  const active = threads.find(thread => thread.id === activeThreadId);
+
+  const startRename = () => {
+    if (!active) return;
+    setDraftTitle(active.title);
+    setEditing(true);
+  };
+
+  const commitRename = () => {
+    if (active && draftTitle.trim()) {
+      onRename(active.id, draftTitle.trim());
+    }
+    setEditing(false);
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      {editing ? (
+        <input
+          autoFocus
+          value={draftTitle}
+          onChange={(e) => setDraftTitle(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') setEditing(false);
+          }}
+          className="w-full px-2 py-1 text-sm border border-blue-300 rounded focus:outline-none"
+        />
+      ) : (
+        <select
+          value={activeThreadId}
+          onChange={(e) => onSelect(e.target.value)}
+          disabled={disabled}
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white disabled:opacity-50"
+        >
+          {threads.map(thread => (
+            <option key={thread.id} value={thread.id}>
+              {thread.title} ({thread.messages.length})
+            </option>
+          ))}
+        </select>
+      )}
+      <div className="flex space-x-3 text-xs">
+        <button onClick={onNew} disabled={disabled} className="text-blue-600 hover:underline disabled:opacity-50">
+          + New chat
+        </button>
+        <button onClick={startRename} className="text-blue-600 hover:underline">
+          Rename
+        </button>
+        <button
+          onClick={() => active && confirm(`Delete the chat "${active.title}"?`) && onDelete(active.id)}
+          disabled={disabled}
+          className="text-red-600 hover:underline disabled:opacity-50"
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ChatThreadBar;
@@ -0,0 +1,42 @@
+import type { NoteCitation } from '../types';
+import { CITATION_LINK_PREFIX, linkCitations } from '../utils/retrieval';
+import Markdown from './Markdown';
+
+interface CitedMessageProps {
+  content: string;
+  citations: NoteCitation[];
+  sourceNames: Record<string, string>;
+  onCite: (citation: NoteCitation) => void;
+}
+
+// Tutor reply with its [P1] markers turned into links back into the notes
+function CitedMessage({ content, citations, sourceNames, onCite }: CitedMessageProps) {
+  const byId = new Map(citations.map(citation => [citation.id, citation]));
+
+  return (
+    <Markdown
+      content={linkCitations(content)}
+      components={{
+        a: ({ children, href }) => {
+          if (!href?.startsWith(CITATION_LINK_PREFIX)) {
+            return <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">{children}</a>;
+          }
+          const id = href.slice(CITATION_LINK_PREFIX.length);
+          const citation = byId.get(id);
+          if (!citation) return <span className="text-gray-400">[{id}]</span>;
+          return (
+            <button
+              onClick={() => onCite(citation)}
+              title={`${sourceNames[citation.sourceId] ?? 'Removed source'}: ${citation.excerpt.substring(0, 160)}`}
+              className="mx-0.5 px-1 rounded bg-blue-100 text-blue-700 text-xs font-medium align-super hover:bg-blue-200"
+            >
+              {id}
+            </button>
+          );
+        },
+      }}
+    />
+  );
+}
+
+export default CitedMessage;
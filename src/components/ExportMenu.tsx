@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import type { MaterialType } from '../types';
+import { EXPORT_FORMATS } from '../utils/exporters';
+import type { ExportFormat } from '../utils/exporters';
+
+interface ExportMenuProps {
+  material: MaterialType;
+  onExport: (format: ExportFormat) => Promise<void>;
+}
+
+function ExportMenu({ material, onExport }: ExportMenuProps) {
+  const [open, setOpen] = useState<boolean>(false);
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+
+  const formats = (Object.keys(EXPORT_FORMATS) as ExportFormat[])
+    .filter(format => EXPORT_FORMATS[format].materials.includes(material));
+
+  const runExport = async (format: ExportFormat) => {
+    setBusy(format);
+    try {
+      await onExport(format);
+      setOpen(false);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="px-6 py-2 rounded-lg font-medium text-white bg-green-600 hover:bg-green-700 transition-colors"
+      >
+        💾 Export ▾
+      </button>
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-72 rounded-lg border border-gray-200 bg-white shadow-xl">
+          {formats.map(format => (
+            <button
+              key={format}
+              onClick={() => runExport(format)}
+              disabled={busy !== null}
+              className="block w-full px-4 py-2 text-left hover:bg-gray-50 disabled:opacity-50"
+            >
+              <span className="block text-sm font-medium text-gray-800">
+                {EXPORT_FORMATS[format].label}
+                {busy === format && <span className="ml-2 text-xs text-gray-500">Preparing…</span>}
+              </span>
+              <span className="block text-xs text-gray-500">{EXPORT_FORMATS[format].description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExportMenu;
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import type { ExtractedDocument } from '../utils/noteExtraction';
+
+interface ExtractionPreviewProps {
+  document: ExtractedDocument;
+  remaining: number;
+  onAdd: (text: string) => void;
+  onCancel: () => void;
+}
+
+const KIND_LABELS: Record<ExtractedDocument['kind'], string> = {
+  pdf: 'PDF',
+  docx: 'Word document',
+  markdown: 'Markdown',
+  html: 'HTML',
+  text: 'Plain text',
+};
+
+function ExtractionPreview({ document, remaining, onAdd, onCancel }: ExtractionPreviewProps) {
+  const [text, setText] = useState<string>(document.text);
+  const wordCount = text.trim() ? text.trim().split(/\s+/).length : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50" onClick={onCancel}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl p-6 max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-semibold text-gray-800">📄 {document.fileName}</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          {KIND_LABELS[document.kind]}
+          {document.pageCount !== undefined && ` · ${document.pageCount} page${document.pageCount === 1 ? '' : 's'}`}
+          {` · ${wordCount} words`}
+        </p>
+
+        {document.warnings.length > 0 && (
+          <ul className="mt-3 rounded-md bg-amber-50 border border-amber-300 p-3 text-sm text-amber-800 list-disc list-inside">
+            {document.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+          </ul>
+        )}
+
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="mt-4 flex-1 min-h-[320px] w-full p-4 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-300"
+        />
+
+        <div className="flex items-center justify-between mt-4">
+          <span className="text-sm text-gray-500">
+            {remaining > 0 && `${remaining} more file${remaining === 1 ? '' : 's'} after this one`}
+          </span>
+          <div className="space-x-2">
+            <button onClick={onCancel} className="px-4 py-2 rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 text-sm">
+              Skip
+            </button>
+            <button
+              onClick={() => onAdd(text)}
+              disabled={!text.trim()}
+              className="px-4 py-2 rounded-md bg-blue-500 text-white hover:bg-blue-600 text-sm font-medium disabled:opacity-50"
+            >
+              Add as Source
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ExtractionPreview;
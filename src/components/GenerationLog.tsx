@@ -0,0 +1,52 @@
+import type { GenerationAttempt } from '../utils/repairLoop';
+
+interface GenerationLogProps {
+  attempts: GenerationAttempt[];
+}
+
+function GenerationLog({ attempts }: GenerationLogProps) {
+  return (
+    <details className="mt-6 rounded-lg bg-gray-50 p-4 text-left">
+      <summary className="cursor-pointer text-sm font-medium text-gray-600 hover:text-gray-800">
+        🔍 Generation log ({attempts.length} attempt{attempts.length === 1 ? '' : 's'})
+      </summary>
+      <div className="mt-4 space-y-4">
+        {attempts.map(attempt => (
+          <div key={`${attempt.chunk ?? 0}-${attempt.attempt}-${attempt.timestamp}`} className="rounded-md border border-gray-200 bg-white p-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-semibold text-gray-800">
+                {attempt.chunk !== undefined && `Chunk ${attempt.chunk} · `}#{attempt.attempt} · {attempt.kind === 'initial' ? 'Initial request' : 'Repair re-prompt'}
+              </span>
+              <span className="text-xs text-gray-500">
+                {new Date(attempt.timestamp).toLocaleTimeString()} · {(attempt.durationMs / 1000).toFixed(1)}s
+              </span>
+            </div>
+            <p className={`mt-1 text-sm ${attempt.parseError || attempt.rejected.length > 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {attempt.parseError
+                ? `Parse error: ${attempt.parseError}`
+                : `${attempt.accepted} valid, ${attempt.rejected.length} rejected`}
+            </p>
+            {attempt.parseDetail && <p className="mt-0.5 text-xs text-gray-500">Parser: {attempt.parseDetail}</p>}
+            {attempt.rejected.length > 0 && (
+              <ul className="mt-1 text-xs text-gray-600 list-disc list-inside">
+                {attempt.rejected.map((item, index) => (
+                  <li key={index}>{item.index >= 0 ? `Item ${item.index + 1}` : 'Response'}: {item.reason}</li>
+                ))}
+              </ul>
+            )}
+            <details className="mt-2">
+              <summary className="cursor-pointer text-xs text-blue-600">Prompt</summary>
+              <pre className="mt-1 max-h-48 overflow-auto whitespace-pre-wrap text-xs text-gray-700 bg-gray-50 p-2 rounded">{attempt.prompt}</pre>
+            </details>
+            <details className="mt-1">
+              <summary className="cursor-pointer text-xs text-blue-600">Response</summary>
+              <pre className="mt-1 max-h-48 overflow-auto whitespace-pre-wrap text-xs text-gray-700 bg-gray-50 p-2 rounded">{attempt.response || '(empty)'}</pre>
+            </details>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
+
+export default GenerationLog;
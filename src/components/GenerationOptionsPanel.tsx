@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import type { BloomLevel, Difficulty, GenerationOptions, MaterialType } from '../types';
+import { BLOOM_DESCRIPTIONS, DIFFICULTY_DESCRIPTIONS, defaultGenerationOptions } from '../utils/studyPrompts';
+
+interface GenerationOptionsPanelProps {
+  options: Record<MaterialType, GenerationOptions>;
+  initialType: MaterialType;
+  // Topics from the notes' outline; picking them limits generation to those sections
+  suggestedTopics: string[];
+  onChange: (type: MaterialType, options: GenerationOptions) => void;
+}
+
+const TYPE_LABELS: Record<MaterialType, string> = {
+  flashcards: '📚 Flashcards',
+  mcqs: '❓ MCQs',
+  mocktest: '📝 Mock Test',
+};
+
+const LANGUAGES = ['English', 'Spanish', 'French', 'German', 'Portuguese', 'Italian', 'Hindi', 'Chinese', 'Japanese', 'Arabic'];
+
+const selectClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-300';
+
+function GenerationOptionsPanel({ options, initialType, suggestedTopics, onChange }: GenerationOptionsPanelProps) {
+  const [type, setType] = useState<MaterialType>(initialType);
+  const [topicDraft, setTopicDraft] = useState<string>('');
+  const current = options[type];
+
+  const update = (patch: Partial<GenerationOptions>) => onChange(type, { ...current, ...patch });
+
+  const addTopics = (topics: string[]) => {
+    if (topics.length === 0) return;
+    update({ focusTopics: Array.from(new Set([...current.focusTopics, ...topics])) });
+  };
+
+  const addTopic = () => {
+    addTopics(topicDraft.split(',').map(topic => topic.trim()).filter(Boolean));
+    setTopicDraft('');
+  };
+
+  const unusedSuggestions = suggestedTopics.filter(topic => !current.focusTopics.includes(topic));
+
+  return (
+    <div className="mt-4 rounded-lg border border-gray-200 p-4">
+      <div className="flex space-x-2 mb-4">
+        {(Object.keys(TYPE_LABELS) as MaterialType[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setType(option)}
+            className={`px-3 py-1.5 rounded-md text-sm font-medium ${
+              option === type ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {TYPE_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <label className="block">
+          <span className="block text-sm font-medium text-gray-700 mb-1">Number of items</span>
+          <input
+            type="number"
+            min={1}
+            max={50}
+            value={current.count}
+            onChange={(e) => update({ count: Math.min(50, Math.max(1, Number(e.target.value) || 1)) })}
+            className={selectClass}
+          />
+        </label>
+
+        <label className="block">
+          <span className="block text-sm font-medium text-gray-700 mb-1">Output language</span>
+          <input
+            list="generation-languages"
+            value={current.language}
+            onChange={(e) => update({ language: e.target.value })}
+            className={selectClass}
+          />
+          <datalist id="generation-languages">
+            {LANGUAGES.map(language => <option key={language} value={language} />)}
+          </datalist>
+        </label>
+
+        <label className="block">
+          <span className="block text-sm font-medium text-gray-700 mb-1">Difficulty</span>
+          <select
+            value={current.difficulty}
+            onChange={(e) => update({ difficulty: e.target.value as Difficulty })}
+            className={selectClass}
+            title={DIFFICULTY_DESCRIPTIONS[current.difficulty]}
+          >
+            {(Object.keys(DIFFICULTY_DESCRIPTIONS) as Difficulty[]).map(level => (
+              <option key={level} value={level}>{level[0].toUpperCase() + level.slice(1)}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="block text-sm font-medium text-gray-700 mb-1">Bloom's level</span>
+          <select
+            value={current.bloomLevel}
+            onChange={(e) => update({ bloomLevel: e.target.value as BloomLevel })}
+            className={selectClass}
+            title={BLOOM_DESCRIPTIONS[current.bloomLevel]}
+          >
+            {(Object.keys(BLOOM_DESCRIPTIONS) as BloomLevel[]).map(level => (
+              <option key={level} value={level}>{level[0].toUpperCase() + level.slice(1)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="mt-4">
+        <span className="block text-sm font-medium text-gray-700 mb-1">Focus topics</span>
+        <div className="flex flex-wrap gap-2 mb-2">
+          {current.focusTopics.map(topic => (
+            <span key={topic} className="flex items-center space-x-1 px-2 py-1 rounded-full bg-blue-50 text-sm text-blue-700">
+              <span>{topic}</span>
+              <button
+                onClick={() => update({ focusTopics: current.focusTopics.filter(other => other !== topic) })}
+                className="text-blue-400 hover:text-blue-700"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          {current.focusTopics.length === 0 && <span className="text-sm text-gray-400">All topics in the notes</span>}
+        </div>
+        <div className="flex space-x-2">
+          <input
+            value={topicDraft}
+            onChange={(e) => setTopicDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addTopic()}
+            placeholder="e.g. photosynthesis, cell membranes"
+            className={selectClass}
+          />
+          <button onClick={addTopic} className="px-3 py-2 rounded-md bg-gray-100 text-sm text-gray-700 hover:bg-gray-200">
+            Add
+          </button>
+        </div>
+        {unusedSuggestions.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1 mt-2">
+            <span className="text-xs text-gray-500 mr-1">From your notes:</span>
+            {unusedSuggestions.map(topic => (
+              <button
+                key={topic}
+                onClick={() => addTopics([topic])}
+                className="px-2 py-0.5 rounded-full border border-gray-300 text-xs text-gray-600 hover:border-blue-400 hover:text-blue-600"
+              >
+                + {topic}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="mt-4 text-right">
+        <button
+          onClick={() => onChange(type, defaultGenerationOptions(type))}
+          className="text-sm text-gray-500 hover:text-gray-700"
+        >
+          Reset {TYPE_LABELS[type]} options
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default GenerationOptionsPanel;
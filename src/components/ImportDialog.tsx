@@ -0,0 +1,224 @@
+import { useMemo, useState } from 'react';
+import type { MaterialType } from '../types';
+import type { StudyItem } from '../utils/repairLoop';
+import {
+  CONFLICT_STRATEGIES,
+  findImportConflicts,
+  guessColumnRoles,
+  importedItems,
+  mergeImported,
+  tableColumns
+} from '../utils/importers';
+import type { ColumnRole, ConflictStrategy, ImportedFile } from '../utils/importers';
+
+interface ImportDialogProps {
+  file: ImportedFile;
+  existing: Record<MaterialType, StudyItem[]>;
+  initialType: MaterialType;
+  onImport: (type: MaterialType, items: StudyItem[]) => void;
+  onCancel: () => void;
+}
+
+const MATERIAL_LABELS: Record<MaterialType, string> = {
+  flashcards: 'Flashcards',
+  mcqs: 'MCQs',
+  mocktest: 'Mock test',
+};
+
+const ROLE_LABELS: Record<ColumnRole, string> = {
+  question: 'Question',
+  answer: 'Answer',
+  options: 'Option',
+  explanation: 'Explanation',
+  type: 'Question type',
+  ignore: 'Ignore',
+};
+
+const FORMAT_LABELS: Record<ImportedFile['format'], string> = {
+  apkg: 'Anki deck',
+  csv: 'CSV',
+  tsv: 'TSV',
+  json: 'JSON',
+  text: 'Q:/A: text',
+};
+
+const PREVIEW_ROWS = 4;
+
+function itemAnswer(item: StudyItem): string {
+  return 'answer' in item ? item.answer : item.correctAnswer;
+}
+
+// Column mapping, validation preview and conflict handling for one imported file
+function ImportDialog({ file, existing, initialType, onImport, onCancel }: ImportDialogProps) {
+  const [type, setType] = useState<MaterialType>(initialType);
+  const [hasHeader, setHasHeader] = useState<boolean>(file.kind === 'table' && file.hasHeader);
+  const [roles, setRoles] = useState<ColumnRole[]>(() => (file.kind === 'table' ? guessColumnRoles(file) : []));
+  const [strategy, setStrategy] = useState<ConflictStrategy>('skip');
+
+  const source = useMemo<ImportedFile>(() => (file.kind === 'table' ? { ...file, hasHeader } : file), [file, hasHeader]);
+  const result = useMemo(() => importedItems(source, type, roles), [source, type, roles]);
+  const conflicts = useMemo(() => findImportConflicts(result.items, existing[type]), [result.items, existing, type]);
+  const merge = useMemo(() => mergeImported(existing[type], result.items, strategy), [existing, type, result.items, strategy]);
+
+  const columns = source.kind === 'table' ? tableColumns(source) : [];
+  const sampleRows = source.kind === 'table' ? source.rows.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + PREVIEW_ROWS) : [];
+  const rowLabel = (index: number) => (source.kind === 'table' ? `Row ${index + (hasHeader ? 2 : 1)}` : `Item ${index + 1}`);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50" onClick={onCancel}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl p-6 max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-semibold text-gray-800">📥 {file.fileName}</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          {FORMAT_LABELS[file.format]}
+          {source.kind === 'table' && ` · ${source.rows.length - (hasHeader ? 1 : 0)} rows`}
+        </p>
+
+        <div className="flex-1 overflow-y-auto mt-4 space-y-5">
+          {file.warnings.length > 0 && (
+            <ul className="rounded-md bg-amber-50 border border-amber-300 p-3 text-sm text-amber-800 list-disc list-inside">
+              {file.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+            </ul>
+          )}
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <span className="font-medium">Import as</span>
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as MaterialType)}
+              className="px-2 py-1 border border-gray-300 rounded-md"
+            >
+              {(Object.keys(MATERIAL_LABELS) as MaterialType[]).map(material => (
+                <option key={material} value={material}>
+                  {MATERIAL_LABELS[material]} ({existing[material].length} existing)
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {source.kind === 'table' && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold text-gray-700">Column mapping</h3>
+                {file.format !== 'apkg' && (
+                  <label className="flex items-center space-x-2 text-sm text-gray-600">
+                    <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+                    <span>First row is a header</span>
+                  </label>
+                )}
+              </div>
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {columns.map((column, index) => (
+                        <th key={index} className="px-3 py-2 text-left font-medium text-gray-700 align-top">
+                          <div className="truncate max-w-[12rem]">{column}</div>
+                          <select
+                            value={roles[index] ?? 'ignore'}
+                            onChange={(e) => setRoles(prev => columns.map((_, i) => (i === index ? e.target.value as ColumnRole : prev[i] ?? 'ignore')))}
+                            className="mt-1 px-1 py-0.5 border border-gray-300 rounded text-xs font-normal"
+                          >
+                            {(Object.keys(ROLE_LABELS) as ColumnRole[]).map(role => (
+                              <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                            ))}
+                          </select>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sampleRows.map((row, rowIndex) => (
+                      <tr key={rowIndex} className="border-t border-gray-100">
+                        {row.map((cell, index) => (
+                          <td key={index} className={`px-3 py-2 align-top ${roles[index] === 'ignore' ? 'text-gray-300' : 'text-gray-700'}`}>
+                            <div className="line-clamp-2 max-w-[12rem] whitespace-pre-wrap">{cell}</div>
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {type !== 'flashcards' && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Map several columns to Option for one choice per column, or one column holding "a | b | c".
+                </p>
+              )}
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">
+              {result.items.length} {MATERIAL_LABELS[type].toLowerCase()} ready to import
+            </h3>
+            {result.items.length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {result.items.slice(0, PREVIEW_ROWS).map((item, index) => (
+                  <li key={index} className="rounded-md bg-gray-50 px-3 py-2">
+                    <span className="text-gray-800">{item.question}</span>
+                    <span className="text-gray-400"> → </span>
+                    <span className="text-green-700">{itemAnswer(item)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {result.rejected.length > 0 && (
+              <details className="mt-2 text-sm text-gray-600">
+                <summary className="cursor-pointer">{result.rejected.length} skipped because they don't fit {MATERIAL_LABELS[type].toLowerCase()}</summary>
+                <ul className="mt-1 ml-4 list-disc">
+                  {result.rejected.slice(0, 20).map((rejected, index) => (
+                    <li key={index}>{rejected.index >= 0 ? `${rowLabel(rejected.index)}: ` : ''}{rejected.reason}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </div>
+
+          {conflicts.length > 0 && (
+            <div className="rounded-lg border border-amber-300 bg-amber-50 p-3">
+              <h3 className="text-sm font-semibold text-amber-800">
+                {conflicts.length} already in this deck
+              </h3>
+              <ul className="mt-1 text-sm text-amber-900 space-y-1">
+                {conflicts.slice(0, 3).map((conflict, index) => (
+                  <li key={index} className="truncate" title={conflict.existing.question}>“{conflict.imported.question}”</li>
+                ))}
+                {conflicts.length > 3 && <li className="text-amber-700">…and {conflicts.length - 3} more</li>}
+              </ul>
+              <div className="mt-2 flex flex-wrap gap-4 text-sm text-gray-700">
+                {(Object.keys(CONFLICT_STRATEGIES) as ConflictStrategy[]).map(option => (
+                  <label key={option} className="flex items-center space-x-1">
+                    <input type="radio" name="import-conflicts" checked={strategy === option} onChange={() => setStrategy(option)} />
+                    <span>{CONFLICT_STRATEGIES[option]}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between mt-4">
+          <span className="text-sm text-gray-500">
+            {merge.added} new
+            {merge.replaced > 0 && ` · ${merge.replaced} replaced`}
+            {merge.skipped > 0 && ` · ${merge.skipped} skipped`}
+          </span>
+          <div className="space-x-2">
+            <button onClick={onCancel} className="px-4 py-2 rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 text-sm">
+              Cancel
+            </button>
+            <button
+              onClick={() => onImport(type, merge.items)}
+              disabled={merge.added + merge.replaced === 0}
+              className="px-4 py-2 rounded-md bg-blue-500 text-white hover:bg-blue-600 text-sm font-medium disabled:opacity-50"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ImportDialog;
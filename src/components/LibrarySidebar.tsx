@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import type { SubjectSummary } from '../types';
+
+interface LibrarySidebarProps {
+  subjects: SubjectSummary[];
+  currentSubjectId: string | null;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+function LibrarySidebar({ subjects, currentSubjectId, onOpen, onNew, onRename, onDelete }: LibrarySidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState<string>('');
+
+  const startRename = (subject: SubjectSummary) => {
+    setEditingId(subject.id);
+    setDraftName(subject.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-64 flex flex-col bg-white shadow-xl border-r border-blue-100">
+      <div className="p-4 border-b border-blue-100">
+        <h3 className="text-lg font-semibold text-gray-800">📂 Library</h3>
+        <button
+          onClick={onNew}
+          className="mt-3 w-full px-3 py-2 rounded-md bg-blue-500 text-white text-sm font-medium hover:bg-blue-600 transition-colors"
+        >
+          + New Subject
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {subjects.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center p-4">
+            Saved subjects appear here once you add notes.
+          </p>
+        ) : (
+          subjects.map(subject => (
+            <div
+              key={subject.id}
+              className={`group rounded-md p-2 cursor-pointer ${
+                subject.id === currentSubjectId ? 'bg-blue-50 border border-blue-200' : 'hover:bg-gray-50 border border-transparent'
+              }`}
+              onClick={() => editingId !== subject.id && onOpen(subject.id)}
+            >
+              {editingId === subject.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full px-2 py-1 text-sm border border-blue-300 rounded focus:outline-none"
+                />
+              ) : (
+                <div className="text-sm font-medium text-gray-800 truncate">{subject.name}</div>
+              )}
+              <div className="flex items-center justify-between mt-1">
+                <span className="text-xs text-gray-500">
+                  {subject.itemCount} items · {new Date(subject.updatedAt).toLocaleDateString()}
+                </span>
+                <span className="space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); startRename(subject); }}
+                    className="text-xs text-blue-600 hover:underline"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      if (confirm(`Delete "${subject.name}" and all of its materials?`)) onDelete(subject.id);
+                    }}
+                    className="text-xs text-red-600 hover:underline"
+                  >
+                    Delete
+                  </button>
+                </span>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default LibrarySidebar;
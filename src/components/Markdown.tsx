@@ -0,0 +1,75 @@
+import ReactMarkdown from 'react-markdown';
+import type { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github.css';
+
+interface MarkdownProps {
+  content: string;
+  // Inline content (options, short answers) renders without paragraph blocks
+  inline?: boolean;
+  className?: string;
+  components?: Components;
+}
+
+const REMARK_PLUGINS = [remarkGfm, remarkMath];
+// Sanitize the agent's markup first; KaTeX and highlighting then add trusted markup
+const REHYPE_PLUGINS = [rehypeSanitize, rehypeKatex, rehypeHighlight];
+
+// Tailwind resets element styles, so Markdown blocks get theirs back here
+const BASE_COMPONENTS: Components = {
+  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-5 mb-2 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 mb-2 space-y-1">{children}</ol>,
+  h1: ({ children }) => <h4 className="font-semibold mb-2">{children}</h4>,
+  h2: ({ children }) => <h4 className="font-semibold mb-2">{children}</h4>,
+  h3: ({ children }) => <h4 className="font-semibold mb-2">{children}</h4>,
+  a: ({ children, href }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">
+      {children}
+    </a>
+  ),
+  blockquote: ({ children }) => <blockquote className="border-l-4 border-gray-300 pl-3 italic mb-2">{children}</blockquote>,
+  pre: ({ children }) => <pre className="mb-2 overflow-x-auto rounded-md bg-gray-50 p-3 text-xs">{children}</pre>,
+  code: ({ children, className }) => (
+    <code className={className ?? 'rounded bg-gray-100 px-1 py-0.5 font-mono text-[0.9em]'}>{children}</code>
+  ),
+  table: ({ children }) => (
+    <div className="mb-2 overflow-x-auto">
+      <table className="min-w-full border-collapse text-sm">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="border border-gray-300 bg-gray-50 px-2 py-1 text-left font-semibold">{children}</th>,
+  td: ({ children }) => <td className="border border-gray-300 px-2 py-1">{children}</td>,
+};
+
+// Models often write \( \) and \[ \] math; remark-math expects dollar delimiters
+function normalizeMathDelimiters(content: string): string {
+  return content
+    .replace(/\\\[([\s\S]+?)\\\]/g, (_, math: string) => `\n$$\n${math.trim()}\n$$\n`)
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_, math: string) => `$${math.trim()}$`);
+}
+
+function Markdown({ content, inline = false, className, components }: MarkdownProps) {
+  const markdown = (
+    <ReactMarkdown
+      remarkPlugins={REMARK_PLUGINS}
+      rehypePlugins={REHYPE_PLUGINS}
+      components={{ ...BASE_COMPONENTS, ...components }}
+      disallowedElements={inline ? ['p'] : undefined}
+      unwrapDisallowed={inline}
+    >
+      {normalizeMathDelimiters(content)}
+    </ReactMarkdown>
+  );
+
+  return inline
+    ? <span className={className}>{markdown}</span>
+    : <div className={className}>{markdown}</div>;
+}
+
+export default Markdown;
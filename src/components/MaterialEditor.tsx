@@ -0,0 +1,301 @@
+import { useEffect } from 'react';
+import type { ReactNode } from 'react';
+import type { Flashcard, MCQ, MaterialType, MockQuestionType, MockTestQuestion } from '../types';
+import type { StudyItem } from '../utils/repairLoop';
+import { QUESTION_TYPE_LABELS, questionType } from '../utils/mockTestGrading';
+import { checkOptionQuality } from '../utils/itemQuality';
+import {
+  addOption,
+  blankItem,
+  itemProblem,
+  moveItem,
+  removeOption,
+  setMockQuestionType,
+  setOption
+} from '../utils/itemEditing';
+
+interface MaterialEditorProps {
+  type: MaterialType;
+  items: StudyItem[];
+  canUndo: boolean;
+  canRedo: boolean;
+  regeneratingIndex: number | null;
+  // `key` groups keystrokes in one field into a single undo step
+  onChange: (items: StudyItem[], label: string, key?: string) => void;
+  onRegenerate: (index: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onDone: () => void;
+  renderSourceBadge: (sourceId?: string) => ReactNode;
+}
+
+const ITEM_NOUNS: Record<MaterialType, string> = {
+  flashcards: 'flashcard',
+  mcqs: 'question',
+  mocktest: 'question',
+};
+
+const FIELD_CLASS = 'w-full p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-300';
+
+function isTextField(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+}
+
+function MaterialEditor({
+  type,
+  items,
+  canUndo,
+  canRedo,
+  regeneratingIndex,
+  onChange,
+  onRegenerate,
+  onUndo,
+  onRedo,
+  onDone,
+  renderSourceBadge
+}: MaterialEditorProps) {
+  const noun = ITEM_NOUNS[type];
+
+  // Ctrl/Cmd+Z outside text fields, which keep their own native undo
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextField(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey && canUndo) {
+        event.preventDefault();
+        onUndo();
+      } else if (((key === 'z' && event.shiftKey) || key === 'y') && canRedo) {
+        event.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [canUndo, canRedo, onUndo, onRedo]);
+
+  const updateItem = (index: number, item: StudyItem, label: string, key?: string) => {
+    onChange(items.map((current, i) => (i === index ? item : current)), label, key);
+  };
+
+  const typeInto = (index: number, field: string, value: string) => {
+    updateItem(index, { ...items[index], [field]: value } as StudyItem, `Edit ${noun} ${index + 1}`, `${index}:${field}`);
+  };
+
+  const problems = items.map(item => itemProblem(type, item));
+  const problemCount = problems.filter(Boolean).length;
+  // Option checks only apply once an item is otherwise valid
+  const qualityIssues = items.map((item, index) => (type !== 'flashcards' && !problems[index] ? checkOptionQuality(item as MCQ) : []));
+  const flaggedCount = qualityIssues.filter(issues => issues.length > 0).length;
+
+  const renderOptions = (item: MCQ, index: number, fixed: boolean) => (
+    <div className="space-y-2">
+      {item.options.map((option, optIndex) => (
+        <div key={optIndex} className="flex items-center space-x-2">
+          <input
+            type="radio"
+            name={`edit-correct-${index}`}
+            checked={option !== '' && option === item.correctAnswer}
+            onChange={() => updateItem(index, { ...item, correctAnswer: option }, `Change answer of ${noun} ${index + 1}`)}
+            disabled={!option}
+            title="Correct answer"
+            className="w-4 h-4"
+          />
+          <span className="text-xs font-medium text-gray-500 w-4">{String.fromCharCode(65 + optIndex)}</span>
+          <input
+            type="text"
+            value={option}
+            readOnly={fixed}
+            onChange={(e) => updateItem(index, setOption(item, optIndex, e.target.value), `Edit ${noun} ${index + 1}`, `${index}:option${optIndex}`)}
+            placeholder={`Option ${String.fromCharCode(65 + optIndex)}`}
+            className={`${FIELD_CLASS} ${fixed ? 'bg-gray-50' : ''}`}
+          />
+          {!fixed && (
+            <button
+              onClick={() => updateItem(index, removeOption(item, optIndex), `Remove option from ${noun} ${index + 1}`)}
+              className="px-2 text-gray-400 hover:text-red-600"
+              title="Remove option"
+            >
+              ✕
+            </button>
+          )}
+        </div>
+      ))}
+      {!fixed && (
+        <button
+          onClick={() => updateItem(index, addOption(item), `Add option to ${noun} ${index + 1}`)}
+          className="text-sm text-blue-600 hover:underline"
+        >
+          + Add option
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 bg-gray-50 rounded-xl p-4">
+        <div>
+          <h3 className="font-semibold text-gray-800">Editing {items.length} {noun}{items.length === 1 ? '' : 's'}</h3>
+          {problemCount > 0 && (
+            <p className="text-sm text-amber-600">{problemCount} need{problemCount === 1 ? 's' : ''} attention</p>
+          )}
+          {flaggedCount > 0 && (
+            <p className="text-sm text-amber-600">{flaggedCount} flagged by the quality checks</p>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+            className="px-3 py-2 rounded-lg bg-white border border-gray-300 text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-40"
+          >
+            ↶ Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+            className="px-3 py-2 rounded-lg bg-white border border-gray-300 text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-40"
+          >
+            ↷ Redo
+          </button>
+          <button
+            onClick={onDone}
+            className="px-4 py-2 rounded-lg bg-blue-500 text-white text-sm font-medium hover:bg-blue-600"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+
+      {items.map((item, index) => {
+        const mockType = type === 'mocktest' ? questionType(item as MockTestQuestion) : null;
+        const isRegenerating = regeneratingIndex === index;
+
+        return (
+          <div
+            key={index}
+            className={`rounded-xl border p-4 space-y-3 ${problems[index] ? 'border-amber-300' : 'border-gray-200'} ${isRegenerating ? 'opacity-60 pointer-events-none' : ''}`}
+          >
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center space-x-2">
+                <span className="text-sm font-semibold text-gray-500">#{index + 1}</span>
+                {mockType && (
+                  <select
+                    value={mockType}
+                    onChange={(e) => updateItem(
+                      index,
+                      setMockQuestionType(item as MockTestQuestion, e.target.value as MockQuestionType),
+                      `Change type of ${noun} ${index + 1}`
+                    )}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+                  >
+                    {(Object.keys(QUESTION_TYPE_LABELS) as MockQuestionType[]).map(option => (
+                      <option key={option} value={option}>{QUESTION_TYPE_LABELS[option]}</option>
+                    ))}
+                  </select>
+                )}
+                {problems[index] && <span className="text-xs text-amber-600">⚠ {problems[index]}</span>}
+              </div>
+              <div className="flex items-center space-x-1 text-sm">
+                <button
+                  onClick={() => onChange(moveItem(items, index, index - 1), `Move ${noun} ${index + 1} up`)}
+                  disabled={index === 0}
+                  className="px-2 py-1 rounded text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                  title="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => onChange(moveItem(items, index, index + 1), `Move ${noun} ${index + 1} down`)}
+                  disabled={index === items.length - 1}
+                  className="px-2 py-1 rounded text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                  title="Move down"
+                >
+                  ↓
+                </button>
+                <button
+                  onClick={() => onRegenerate(index)}
+                  disabled={regeneratingIndex !== null}
+                  className="px-2 py-1 rounded text-blue-600 hover:bg-blue-50 disabled:opacity-40"
+                  title="Ask the study agent for a replacement"
+                >
+                  {isRegenerating ? '⏳ Regenerating...' : '↻ Regenerate'}
+                </button>
+                <button
+                  onClick={() => onChange(items.filter((_, i) => i !== index), `Delete ${noun} ${index + 1}`)}
+                  className="px-2 py-1 rounded text-red-600 hover:bg-red-50"
+                  title="Delete"
+                >
+                  🗑
+                </button>
+              </div>
+            </div>
+
+            <textarea
+              value={item.question}
+              onChange={(e) => typeInto(index, 'question', e.target.value)}
+              placeholder="Question"
+              rows={2}
+              className={FIELD_CLASS}
+            />
+
+            {type === 'flashcards' && (
+              <textarea
+                value={(item as Flashcard).answer}
+                onChange={(e) => typeInto(index, 'answer', e.target.value)}
+                placeholder="Answer"
+                rows={3}
+                className={FIELD_CLASS}
+              />
+            )}
+
+            {type === 'mcqs' && renderOptions(item as MCQ, index, false)}
+
+            {mockType && mockType !== 'short' && renderOptions(item as MockTestQuestion, index, mockType === 'truefalse')}
+
+            {mockType === 'short' && (
+              <textarea
+                value={(item as MockTestQuestion).correctAnswer}
+                onChange={(e) => typeInto(index, 'correctAnswer', e.target.value)}
+                placeholder="Model answer"
+                rows={2}
+                className={FIELD_CLASS}
+              />
+            )}
+
+            {mockType && (
+              <textarea
+                value={(item as MockTestQuestion).explanation}
+                onChange={(e) => typeInto(index, 'explanation', e.target.value)}
+                placeholder="Explanation shown after the test"
+                rows={2}
+                className={FIELD_CLASS}
+              />
+            )}
+
+            {qualityIssues[index].length > 0 && (
+              <ul className="text-xs text-amber-700 space-y-1">
+                {qualityIssues[index].map((issue, issueIndex) => (
+                  <li key={issueIndex}>⚠ {issue.message}</li>
+                ))}
+              </ul>
+            )}
+
+            {renderSourceBadge(item.source)}
+          </div>
+        );
+      })}
+
+      <button
+        onClick={() => onChange([...items, blankItem(type)], `Add ${noun}`)}
+        className="w-full py-3 rounded-xl border-2 border-dashed border-gray-300 text-gray-600 hover:border-blue-400 hover:text-blue-600"
+      >
+        + Add {noun}
+      </button>
+    </div>
+  );
+}
+
+export default MaterialEditor;
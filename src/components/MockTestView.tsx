@@ -0,0 +1,318 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import type { MockQuestionType, MockTestQuestion } from '../types';
+import { QUESTION_TYPE_LABELS, formatClock, questionType, scoreTest } from '../utils/mockTestGrading';
+import type { QuestionResult } from '../utils/mockTestGrading';
+import { createShuffleSeed, shuffleOptions } from '../utils/optionShuffle';
+import Markdown from './Markdown';
+
+interface MockTestViewProps {
+  questions: MockTestQuestion[];
+  renderSourceBadge: (sourceId?: string) => ReactNode;
+  // Called on submit and again whenever a short answer is re-marked
+  onFinish?: (run: MockTestRun) => void;
+}
+
+export interface MockTestRun {
+  startedAt: number;
+  endedAt: number;
+  seed: number; // option order of this run
+  results: QuestionResult[];
+}
+
+type TestPhase = 'setup' | 'running' | 'review';
+
+const PAGE_SIZE = 5;
+
+function MockTestView({ questions, renderSourceBadge, onFinish }: MockTestViewProps) {
+  const [phase, setPhase] = useState<TestPhase>('setup');
+  const [useTimer, setUseTimer] = useState<boolean>(true);
+  const [timerMinutes, setTimerMinutes] = useState<number>(Math.max(5, Math.ceil(questions.length * 1.5)));
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [now, setNow] = useState<number>(() => Date.now());
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [overrides, setOverrides] = useState<Record<number, boolean>>({});
+  const [page, setPage] = useState<number>(1);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [submittedAt, setSubmittedAt] = useState<number | null>(null);
+  // Each run, retakes included, shows options in a new order
+  const [seed, setSeed] = useState<number>(createShuffleSeed);
+
+  const pageCount = Math.ceil(questions.length / PAGE_SIZE);
+  const remainingSeconds = deadline ? Math.ceil((deadline - now) / 1000) : null;
+  const answeredCount = Object.values(answers).filter(answer => answer.trim()).length;
+
+  useEffect(() => {
+    if (phase !== 'running' || !deadline) return;
+    const handle = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(handle);
+  }, [phase, deadline]);
+
+  const reportRun = useCallback((endedAt: number, nextOverrides: Record<number, boolean>) => {
+    if (startedAt === null) return;
+    onFinish?.({ startedAt, endedAt, seed, results: scoreTest(questions, answers, nextOverrides).results });
+  }, [onFinish, startedAt, seed, questions, answers]);
+
+  const finishTest = useCallback(() => {
+    const endedAt = Date.now();
+    setSubmittedAt(endedAt);
+    setPhase('review');
+    setPage(1);
+    reportRun(endedAt, overrides);
+  }, [reportRun, overrides]);
+
+  // Time's up: submit whatever has been answered
+  useEffect(() => {
+    if (phase === 'running' && remainingSeconds !== null && remainingSeconds <= 0) {
+      finishTest();
+    }
+  }, [phase, remainingSeconds, finishTest]);
+
+  const startTest = () => {
+    setAnswers({});
+    setOverrides({});
+    setPage(1);
+    setNow(Date.now());
+    setStartedAt(Date.now());
+    setSubmittedAt(null);
+    setSeed(createShuffleSeed());
+    setDeadline(useTimer ? Date.now() + timerMinutes * 60 * 1000 : null);
+    setPhase('running');
+  };
+
+  const submitTest = () => {
+    const unanswered = questions.length - answeredCount;
+    if (unanswered > 0 && !confirm(`You have ${unanswered} unanswered question${unanswered === 1 ? '' : 's'}. Submit anyway?`)) {
+      return;
+    }
+    finishTest();
+  };
+
+  const setAnswer = (index: number, answer: string) => {
+    setAnswers(prev => ({ ...prev, [index]: answer }));
+  };
+
+  const typeCounts = questions.reduce<Record<MockQuestionType, number>>((counts, question) => {
+    counts[questionType(question)]++;
+    return counts;
+  }, { mcq: 0, truefalse: 0, short: 0 });
+
+  if (phase === 'setup') {
+    return (
+      <div className="bg-white rounded-xl shadow-lg p-8 text-center space-y-6">
+        <div>
+          <h3 className="text-2xl font-bold text-gray-800">Mock Test</h3>
+          <p className="text-gray-600 mt-2">
+            {questions.length} questions ·{' '}
+            {(Object.keys(typeCounts) as MockQuestionType[])
+              .filter(type => typeCounts[type] > 0)
+              .map(type => `${typeCounts[type]} ${QUESTION_TYPE_LABELS[type].toLowerCase()}`)
+              .join(' · ')}
+          </p>
+        </div>
+
+        <div className="flex items-center justify-center space-x-3">
+          <label className="flex items-center space-x-2 text-gray-700">
+            <input type="checkbox" checked={useTimer} onChange={(e) => setUseTimer(e.target.checked)} />
+            <span>Countdown timer</span>
+          </label>
+          {useTimer && (
+            <label className="flex items-center space-x-2 text-gray-700">
+              <input
+                type="number"
+                min={1}
+                max={300}
+                value={timerMinutes}
+                onChange={(e) => setTimerMinutes(Math.min(300, Math.max(1, Number(e.target.value) || 1)))}
+                className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+              />
+              <span>minutes</span>
+            </label>
+          )}
+        </div>
+
+        <p className="text-sm text-gray-500">Answers and explanations are revealed after you submit.</p>
+
+        <button
+          onClick={startTest}
+          className="px-8 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 font-medium transition-colors"
+        >
+          Start Test
+        </button>
+      </div>
+    );
+  }
+
+  const score = phase === 'review' ? scoreTest(questions, answers, overrides) : null;
+  const startIndex = (page - 1) * PAGE_SIZE;
+  const currentQuestions = questions.slice(startIndex, startIndex + PAGE_SIZE);
+
+  return (
+    <div className="space-y-6">
+      {score && (
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800">Test Results</h3>
+              <p className="text-sm text-gray-500">{answeredCount} of {questions.length} answered</p>
+            </div>
+            <div className={`text-3xl font-bold ${score.percent >= 70 ? 'text-green-600' : score.percent >= 50 ? 'text-amber-500' : 'text-red-600'}`}>
+              {score.correct}/{score.total} · {score.percent}%
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-3 mt-4">
+            {(Object.keys(score.byType) as MockQuestionType[])
+              .filter(type => score.byType[type].total > 0)
+              .map(type => (
+                <div key={type} className="rounded-lg bg-gray-50 p-3 text-center">
+                  <div className="text-xs text-gray-500">{QUESTION_TYPE_LABELS[type]}</div>
+                  <div className="text-lg font-semibold text-gray-800">
+                    {score.byType[type].correct}/{score.byType[type].total}
+                  </div>
+                </div>
+              ))}
+          </div>
+          <button
+            onClick={() => setPhase('setup')}
+            className="mt-4 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            Retake Test
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between bg-white rounded-xl shadow-lg p-4">
+        <span className="text-sm font-medium text-gray-600">
+          Questions {startIndex + 1}-{Math.min(startIndex + PAGE_SIZE, questions.length)} of {questions.length}
+        </span>
+        {phase === 'running' && remainingSeconds !== null && (
+          <span className={`font-mono text-lg font-semibold ${remainingSeconds <= 60 ? 'text-red-600' : 'text-gray-700'}`}>
+            ⏱ {formatClock(remainingSeconds)}
+          </span>
+        )}
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setPage(Math.max(1, page - 1))}
+            disabled={page === 1}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            ← Previous
+          </button>
+          <button
+            onClick={() => setPage(Math.min(pageCount, page + 1))}
+            disabled={page >= pageCount}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Next →
+          </button>
+        </div>
+      </div>
+
+      {currentQuestions.map((question, offset) => {
+        const index = startIndex + offset;
+        const type = questionType(question);
+        const result = score?.results[index];
+
+        return (
+          <div
+            key={index}
+            className={`bg-white rounded-xl shadow-lg p-6 ${result ? (result.correct ? 'border-l-4 border-green-500' : 'border-l-4 border-red-500') : ''}`}
+          >
+            <div className="text-xs font-medium text-gray-400 mb-1">{QUESTION_TYPE_LABELS[type]}</div>
+            <h3 className="text-lg font-semibold text-gray-800 mb-4">
+              {index + 1}. <Markdown content={question.question} inline />
+              <div>{renderSourceBadge(question.source)}</div>
+            </h3>
+
+            {type === 'short' ? (
+              <textarea
+                value={answers[index] ?? ''}
+                onChange={(e) => setAnswer(index, e.target.value)}
+                disabled={phase !== 'running'}
+                placeholder="Type your answer..."
+                className="w-full h-24 p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-300 disabled:bg-gray-50"
+              />
+            ) : (
+              <div className="space-y-3">
+                {shuffleOptions(question.options, seed, question.question).map((option, optIndex) => {
+                  const isCorrectOption = phase === 'review' && option === question.correctAnswer;
+                  const isWrongPick = phase === 'review' && answers[index] === option && option !== question.correctAnswer;
+                  return (
+                    <label
+                      key={optIndex}
+                      className={`flex items-center space-x-3 p-3 rounded-lg border transition-colors ${
+                        isCorrectOption ? 'border-green-400 bg-green-50' : isWrongPick ? 'border-red-400 bg-red-50' : 'border-transparent hover:bg-gray-50 hover:border-blue-200'
+                      } ${phase === 'running' ? 'cursor-pointer' : ''}`}
+                    >
+                      <input
+                        type="radio"
+                        name={`mock-q-${index}`}
+                        value={option}
+                        checked={answers[index] === option}
+                        onChange={() => setAnswer(index, option)}
+                        disabled={phase !== 'running'}
+                        className="w-4 h-4 text-blue-500 focus:ring-blue-400"
+                      />
+                      <Markdown content={option} inline className="text-gray-800 flex-1" />
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+
+            {result && (
+              <div className="mt-4 space-y-3 rounded-lg bg-gray-50 p-4">
+                <div className="flex items-center justify-between">
+                  <span className={`font-semibold ${result.correct ? 'text-green-600' : 'text-red-600'}`}>
+                    {result.correct ? '✓ Correct' : result.answer ? '✗ Incorrect' : '✗ Not answered'}
+                    {result.overridden && <span className="ml-2 text-xs font-normal text-gray-500">(marked by you)</span>}
+                  </span>
+                  {type === 'short' && result.answer && (
+                    <button
+                      onClick={() => {
+                        const next = { ...overrides, [index]: !result.correct };
+                        setOverrides(next);
+                        reportRun(submittedAt ?? Date.now(), next);
+                      }}
+                      className="text-xs text-blue-600 hover:underline"
+                    >
+                      Mark as {result.correct ? 'incorrect' : 'correct'}
+                    </button>
+                  )}
+                </div>
+                {type === 'short' && (
+                  <div>
+                    <span className="font-semibold text-gray-800">Model answer: </span>
+                    <Markdown content={question.correctAnswer} inline className="text-green-700" />
+                  </div>
+                )}
+                {question.explanation && (
+                  <div>
+                    <span className="font-semibold text-gray-800">Explanation: </span>
+                    <Markdown content={question.explanation} className="text-gray-700 mt-2 leading-relaxed" />
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {phase === 'running' && (
+        <div className="flex items-center justify-between bg-white rounded-xl shadow-lg p-6">
+          <button
+            onClick={submitTest}
+            className="px-6 py-3 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors"
+          >
+            Submit Test
+          </button>
+          <span className="text-sm text-gray-600 font-medium">
+            Answered: {answeredCount} / {questions.length}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MockTestView;
@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import { DEFAULT_PROVIDER_SETTINGS } from '../providers';
+import type { ProviderId, ProviderSettings } from '../providers';
+import { DEFAULT_GENERATION_SETTINGS } from '../utils/generationSettings';
+import type { GenerationSettings } from '../utils/generationSettings';
+
+interface SettingsPanelProps {
+  settings: ProviderSettings;
+  generationSettings: GenerationSettings;
+  onSave: (settings: ProviderSettings, generationSettings: GenerationSettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDER_OPTIONS: { id: ProviderId; label: string; description: string }[] = [
+  { id: 'lyzr', label: 'Lyzr Studio', description: 'Hosted study and tutor agents' },
+  { id: 'openai', label: 'OpenAI-compatible', description: 'OpenAI or your own gateway' },
+  { id: 'mock', label: 'Mock (offline)', description: 'Fake responses for demos and tests' },
+];
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="block">
+      <span className="block text-sm font-medium text-gray-700 mb-1">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-300';
+
+function SettingsPanel({ settings, generationSettings, onSave, onClose }: SettingsPanelProps) {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  const [generationDraft, setGenerationDraft] = useState<GenerationSettings>(generationSettings);
+
+  const update = <K extends 'lyzr' | 'openai' | 'mock'>(section: K, patch: Partial<ProviderSettings[K]>) => {
+    setDraft(prev => ({ ...prev, [section]: { ...prev[section], ...patch } }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg p-6 max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">⚙️ AI Provider Settings</h2>
+
+        <div className="grid grid-cols-3 gap-2 mb-6">
+          {PROVIDER_OPTIONS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setDraft(prev => ({ ...prev, provider: option.id }))}
+              className={`p-3 rounded-lg border text-left transition-colors ${
+                draft.provider === option.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <span className="block text-sm font-semibold text-gray-800">{option.label}</span>
+              <span className="block text-xs text-gray-500 mt-1">{option.description}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-4">
+          {draft.provider === 'lyzr' && (
+            <>
+              <Field label="API key">
+                <input type="password" value={draft.lyzr.apiKey} onChange={(e) => update('lyzr', { apiKey: e.target.value })} className={inputClass} />
+              </Field>
+              <Field label="Base URL">
+                <input value={draft.lyzr.baseUrl} onChange={(e) => update('lyzr', { baseUrl: e.target.value })} className={inputClass} />
+              </Field>
+              <Field label="Study agent ID">
+                <input value={draft.lyzr.studyAgentId} onChange={(e) => update('lyzr', { studyAgentId: e.target.value })} className={inputClass} />
+              </Field>
+              <Field label="Tutor agent ID">
+                <input value={draft.lyzr.tutorAgentId} onChange={(e) => update('lyzr', { tutorAgentId: e.target.value })} className={inputClass} />
+              </Field>
+              <Field label="User ID">
+                <input value={draft.lyzr.userId} onChange={(e) => update('lyzr', { userId: e.target.value })} className={inputClass} />
+              </Field>
+            </>
+          )}
+
+          {draft.provider === 'openai' && (
+            <>
+              <Field label="Base URL">
+                <input value={draft.openai.baseUrl} onChange={(e) => update('openai', { baseUrl: e.target.value })} className={inputClass} />
+              </Field>
+              <Field label="API key">
+                <input type="password" value={draft.openai.apiKey} onChange={(e) => update('openai', { apiKey: e.target.value })} className={inputClass} />
+              </Field>
+              <Field label="Model">
+                <input value={draft.openai.model} onChange={(e) => update('openai', { model: e.target.value })} className={inputClass} />
+              </Field>
+              <Field label={`Temperature (${draft.openai.temperature})`}>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.1}
+                  value={draft.openai.temperature}
+                  onChange={(e) => update('openai', { temperature: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </Field>
+            </>
+          )}
+
+          {draft.provider === 'mock' && (
+            <Field label="Simulated latency (ms)">
+              <input
+                type="number"
+                min={0}
+                value={draft.mock.latencyMs}
+                onChange={(e) => update('mock', { latencyMs: Math.max(0, Number(e.target.value)) })}
+                className={inputClass}
+              />
+            </Field>
+          )}
+        </div>
+
+        <p className="text-xs text-gray-500 mt-4">Keys are stored only in this browser's local storage.</p>
+
+        <h3 className="text-lg font-semibold text-gray-800 mt-6 mb-3">Generation</h3>
+        <div className="space-y-4">
+          <Field label="Attempts per generation (including repair re-prompts)">
+            <input
+              type="number"
+              min={1}
+              max={6}
+              value={generationDraft.maxAttempts}
+              onChange={(e) => setGenerationDraft(prev => ({ ...prev, maxAttempts: Math.min(6, Math.max(1, Number(e.target.value))) }))}
+              className={inputClass}
+            />
+          </Field>
+          <div className="grid grid-cols-2 gap-3">
+            <Field label="Chunk size (tokens)">
+              <input
+                type="number"
+                min={500}
+                step={500}
+                value={generationDraft.chunkTokens}
+                onChange={(e) => setGenerationDraft(prev => ({ ...prev, chunkTokens: Math.max(500, Number(e.target.value)) }))}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Parallel requests">
+              <input
+                type="number"
+                min={1}
+                max={8}
+                value={generationDraft.concurrency}
+                onChange={(e) => setGenerationDraft(prev => ({ ...prev, concurrency: Math.min(8, Math.max(1, Number(e.target.value))) }))}
+                className={inputClass}
+              />
+            </Field>
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={generationDraft.demoMode}
+              onChange={(e) => setGenerationDraft(prev => ({ ...prev, demoMode: e.target.checked }))}
+            />
+            <span>Demo mode: show placeholder material when generation fails</span>
+          </label>
+        </div>
+
+        <div className="flex justify-between mt-6">
+          <button
+            onClick={() => {
+              setDraft(DEFAULT_PROVIDER_SETTINGS);
+              setGenerationDraft(DEFAULT_GENERATION_SETTINGS);
+            }}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+          >
+            Reset to defaults
+          </button>
+          <div className="space-x-2">
+            <button onClick={onClose} className="px-4 py-2 rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 text-sm">
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(draft, generationDraft)}
+              className="px-4 py-2 rounded-md bg-blue-500 text-white hover:bg-blue-600 text-sm font-medium"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SettingsPanel;
@@ -0,0 +1,58 @@
+import type { NoteSource } from '../types';
+
+interface SourceListProps {
+  sources: NoteSource[];
+  activeSourceId: string | null;
+  onSelect: (id: string) => void;
+  onToggle: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const KIND_ICONS: Record<NoteSource['kind'], string> = {
+  pdf: '📕',
+  docx: '📘',
+  markdown: '📝',
+  html: '🌐',
+  text: '📄',
+  pasted: '📋',
+};
+
+function SourceList({ sources, activeSourceId, onSelect, onToggle, onRemove }: SourceListProps) {
+  if (sources.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-3">
+      {sources.map(source => {
+        const words = source.text.trim() ? source.text.trim().split(/\s+/).length : 0;
+        return (
+          <div
+            key={source.id}
+            className={`flex items-center space-x-2 pl-2 pr-1 py-1 rounded-full border text-sm ${
+              source.id === activeSourceId ? 'border-blue-500 bg-blue-50' : 'border-gray-300 bg-white'
+            } ${source.enabled ? '' : 'opacity-60'}`}
+          >
+            <input
+              type="checkbox"
+              checked={source.enabled}
+              onChange={() => onToggle(source.id)}
+              title={source.enabled ? 'Exclude from generation' : 'Include in generation'}
+            />
+            <button onClick={() => onSelect(source.id)} className="text-gray-800 max-w-[14rem] truncate" title={source.name}>
+              {KIND_ICONS[source.kind]} {source.name}
+            </button>
+            <span className="text-xs text-gray-500">{words}w</span>
+            <button
+              onClick={() => onRemove(source.id)}
+              className="w-5 h-5 rounded-full text-gray-400 hover:text-red-600 hover:bg-red-50"
+              title="Remove source"
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default SourceList;
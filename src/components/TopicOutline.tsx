@@ -0,0 +1,111 @@
+import { useMemo, useState } from 'react';
+import type { Topic } from '../types';
+import { topicFamily } from '../utils/topics';
+
+interface TopicOutlineProps {
+  outline: Topic[];
+  itemTopics: string[][]; // topics of each item in the material being studied
+  materialName: string; // plural, e.g. "flashcards"
+  activeTopic: string | null;
+  disabled: boolean;
+  onSelect: (name: string | null) => void;
+  onDrill: (name: string) => void;
+}
+
+// Topics found in the notes, with what each covers and how many items test it
+function TopicOutline({ outline, itemTopics, materialName, activeTopic, disabled, onSelect, onDrill }: TopicOutlineProps) {
+  const [open, setOpen] = useState<boolean>(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const counts = useMemo(() => Object.fromEntries(outline.map(topic => {
+    const family = new Set(topicFamily(outline, topic.name).map(member => member.name));
+    return [topic.name, itemTopics.filter(topics => topics.some(name => family.has(name))).length];
+  })), [outline, itemTopics]);
+
+  const uncovered = outline.filter(topic => counts[topic.name] === 0).length;
+
+  return (
+    <div className="rounded-xl shadow-lg p-6 mb-8 bg-white">
+      <button onClick={() => setOpen(prev => !prev)} className="w-full flex items-center justify-between text-left">
+        <h2 className="text-xl font-semibold text-gray-800">
+          🧭 Topics <span className="text-sm font-normal text-gray-500">({outline.length} found in your notes)</span>
+        </h2>
+        <span className="text-gray-500">{open ? '▲' : '▼'}</span>
+      </button>
+
+      {open && (
+        <div className="mt-4">
+          <p className="text-sm text-gray-500 mb-3">
+            Counts are {materialName} per topic
+            {uncovered > 0 && <span className="text-amber-600"> · {uncovered} topic{uncovered === 1 ? ' has' : 's have'} none yet</span>}.
+            Pick a topic to study only its items, or drill it to generate new ones from that section.
+          </p>
+          <ul className="divide-y divide-gray-100">
+            {outline.map(topic => {
+              const hasDetails = topic.keyTerms.length > 0 || topic.definitions.length > 0;
+              return (
+                <li key={topic.id} className="py-2" style={{ paddingLeft: `${(Math.min(topic.level, 4) - 1) * 1.25}rem` }}>
+                  <div className="flex items-center justify-between gap-2">
+                    <button
+                      onClick={() => onSelect(activeTopic === topic.name ? null : topic.name)}
+                      className={`text-left text-sm truncate ${activeTopic === topic.name ? 'font-semibold text-blue-600' : 'text-gray-800 hover:text-blue-600'}`}
+                      title={activeTopic === topic.name ? 'Show all topics' : `Study only "${topic.name}"`}
+                    >
+                      {topic.name}
+                    </button>
+                    <div className="flex items-center space-x-2 shrink-0 text-sm">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${counts[topic.name] > 0 ? 'bg-gray-100 text-gray-600' : 'bg-amber-50 text-amber-700'}`}>
+                        {counts[topic.name]}
+                      </span>
+                      {hasDetails && (
+                        <button
+                          onClick={() => setExpanded(expanded === topic.id ? null : topic.id)}
+                          className="text-gray-400 hover:text-gray-600"
+                          title="Key terms and definitions"
+                        >
+                          {expanded === topic.id ? '▴' : '▾'}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => onDrill(topic.name)}
+                        disabled={disabled}
+                        className="text-blue-600 hover:underline disabled:opacity-40"
+                        title={`Generate ${materialName} from this section only`}
+                      >
+                        🎯 Drill
+                      </button>
+                    </div>
+                  </div>
+
+                  {expanded === topic.id && (
+                    <div className="mt-2 space-y-2 text-sm">
+                      {topic.keyTerms.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {topic.keyTerms.map(term => (
+                            <span key={term} className="px-2 py-0.5 rounded-full bg-blue-50 text-xs text-blue-700">{term}</span>
+                          ))}
+                        </div>
+                      )}
+                      {topic.definitions.length > 0 && (
+                        <dl className="space-y-1">
+                          {topic.definitions.map(definition => (
+                            <div key={definition.term}>
+                              <dt className="inline font-medium text-gray-700">{definition.term}: </dt>
+                              <dd className="inline text-gray-600">{definition.definition}</dd>
+                            </div>
+                          ))}
+                        </dl>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TopicOutline;
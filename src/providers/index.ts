@@ -0,0 +1,42 @@
+import { createLyzrProvider } from './lyzr';
+import { createMockProvider } from './mock';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import type { LLMProvider, ProviderRequest, ProviderResponse, ProviderSettings } from './types';
+
+export function createProvider(settings: ProviderSettings): LLMProvider {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(settings.openai);
+    case 'mock':
+      return createMockProvider(settings.mock);
+    case 'lyzr':
+    default:
+      return createLyzrProvider(settings.lyzr);
+  }
+}
+
+// Streams when the provider supports it, otherwise delivers the whole reply as one delta
+export async function streamResponse(
+  provider: LLMProvider,
+  request: ProviderRequest,
+  onToken: (delta: string) => void
+): Promise<ProviderResponse> {
+  if (provider.streamMessage) {
+    return provider.streamMessage(request, onToken);
+  }
+  const response = await provider.sendMessage(request);
+  if (response.content) onToken(response.content);
+  return response;
+}
+
+export { DEFAULT_PROVIDER_SETTINGS, loadProviderSettings, saveProviderSettings } from './settings';
+export { ProviderError, createSessionId, inlineHistory } from './types';
+export type {
+  AgentRole,
+  ConversationTurn,
+  LLMProvider,
+  ProviderId,
+  ProviderRequest,
+  ProviderResponse,
+  ProviderSettings,
+} from './types';
@@ -0,0 +1,107 @@
+import { readServerSentEvents } from './sse';
+import { ProviderError, createSessionId, inlineHistory } from './types';
+import type { LLMProvider, LyzrSettings, ProviderRequest, ProviderResponse } from './types';
+
+// Lyzr Studio agents, addressed by agent id per role
+
+// Stream events carry either raw text or a small JSON envelope
+function streamDelta(payload: string): string {
+  try {
+    const parsed: unknown = JSON.parse(payload);
+    if (typeof parsed === 'string') return parsed;
+    if (parsed && typeof parsed === 'object') {
+      const { content, response, message } = parsed as Record<string, unknown>;
+      const delta = content ?? response ?? message;
+      return typeof delta === 'string' ? delta : '';
+    }
+    return payload;
+  } catch {
+    return payload;
+  }
+}
+
+export function createLyzrProvider(settings: LyzrSettings): LLMProvider {
+  const agentIdFor = (agent: ProviderRequest['agent']) =>
+    agent === 'study' ? settings.studyAgentId : settings.tutorAgentId;
+
+  const post = (path: string, request: ProviderRequest) => {
+    if (!settings.apiKey) {
+      throw new ProviderError('lyzr', 'No Lyzr API key configured. Add one in Settings.');
+    }
+
+    const sessionId = request.sessionId ?? createSessionId(request.agent);
+    const response = fetch(`${settings.baseUrl.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': settings.apiKey,
+      },
+      body: JSON.stringify({
+        user_id: settings.userId,
+        agent_id: agentIdFor(request.agent),
+        session_id: sessionId,
+        message: inlineHistory(request),
+      }),
+      signal: request.signal,
+    });
+    return { sessionId, response };
+  };
+
+  const sendMessage = async (request: ProviderRequest): Promise<ProviderResponse> => {
+    const { sessionId, response: pending } = post('/v3/inference/chat/', request);
+    const response = await pending;
+
+    const responseText = await response.text();
+    if (!response.ok) {
+      throw new ProviderError('lyzr', `Lyzr request failed (${response.status}): ${responseText.substring(0, 200)}`, response.status);
+    }
+
+    let data: Record<string, unknown>;
+    try {
+      data = JSON.parse(responseText);
+    } catch {
+      throw new ProviderError('lyzr', 'Lyzr returned a non-JSON response');
+    }
+
+    const content = data.response || data.message || data.content;
+    return {
+      content: typeof content === 'string' ? content : content ? JSON.stringify(content) : '',
+      sessionId,
+      raw: data,
+    };
+  };
+
+  const streamMessage = async (
+    request: ProviderRequest,
+    onToken: (delta: string) => void
+  ): Promise<ProviderResponse> => {
+    const { sessionId, response: pending } = post('/v3/inference/stream/', request);
+    const response = await pending;
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new ProviderError('lyzr', `Lyzr request failed (${response.status}): ${text.substring(0, 200)}`, response.status);
+    }
+    if (!response.body) {
+      throw new ProviderError('lyzr', 'Streaming is not supported by this browser');
+    }
+
+    let content = '';
+    await readServerSentEvents(response.body, (payload) => {
+      const delta = streamDelta(payload);
+      if (delta) {
+        content += delta;
+        onToken(delta);
+      }
+    });
+
+    return { content, sessionId };
+  };
+
+  return {
+    id: 'lyzr',
+    label: 'Lyzr Studio',
+    sendMessage,
+    streamMessage,
+  };
+}
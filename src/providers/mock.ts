@@ -0,0 +1,135 @@
+import { createSessionId } from './types';
+import type { ConversationTurn, LLMProvider, MockSettings, ProviderRequest, ProviderResponse } from './types';
+
+// Offline provider that fabricates deterministic answers from the prompt itself
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const handle = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(handle);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+// Pulls the notes out of a study prompt so boilerplate doesn't become questions
+function notesFromPrompt(message: string): string {
+  const match = message.match(/[Nn]otes:\s*([\s\S]*?)(?:\n\n(?:Return ONLY|Format:|Student question)|$)/);
+  return match?.[1]?.trim() || message;
+}
+
+function requestedCount(message: string, fallback: number): number {
+  const match = message.match(/exactly (\d+)/i);
+  return match ? Number(match[1]) : fallback;
+}
+
+function extractSentences(message: string): string[] {
+  const sentences = notesFromPrompt(message)
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 20 && !/json|return only|format/i.test(sentence));
+  return sentences.length > 0 ? sentences : ['These notes describe the topic you are studying.'];
+}
+
+function keyTerm(sentence: string): string {
+  const words = sentence.replace(/[^\w\s-]/g, '').split(/\s+/).filter(word => word.length > 4);
+  return words.sort((a, b) => b.length - a.length)[0] ?? 'concept';
+}
+
+function mockStudyContent(message: string): string {
+  const sentences = extractSentences(message);
+  const pick = (fallback: number) =>
+    Array.from({ length: requestedCount(message, fallback) }, (_, i) => sentences[i % sentences.length]);
+  // Repair re-prompts name the material type instead of repeating the original wording
+  const repairing = message.match(/Your previous (flashcards|mcqs|mocktest) output/)?.[1];
+
+  if (repairing === 'mocktest' || (!repairing && /exam questions|mixing|mock test/i.test(message))) {
+    return JSON.stringify(pick(10).map((sentence, i) => {
+      const term = keyTerm(sentence);
+      const explanation = `The notes state: ${sentence}`;
+      if (i % 3 === 1) {
+        return { type: 'truefalse', question: sentence, options: ['True', 'False'], correctAnswer: 'True', explanation };
+      }
+      if (i % 3 === 2) {
+        return { type: 'short', question: `In one word, which key term does this describe: "${sentence.replace(term, '____')}"?`, options: [], correctAnswer: term, explanation };
+      }
+      return {
+        type: 'mcq',
+        question: `According to the notes, what does "${term}" refer to?`,
+        options: [sentence, 'An unrelated idea', 'A historical footnote', 'None of the above'],
+        correctAnswer: sentence,
+        explanation,
+      };
+    }), null, 2);
+  }
+
+  if (repairing === 'mcqs' || (!repairing && /multiple choice/i.test(message))) {
+    const terms = Array.from(new Set(sentences.map(keyTerm)));
+    return JSON.stringify(pick(8).map(sentence => {
+      const term = keyTerm(sentence);
+      const distractors = terms.filter(other => other !== term).slice(0, 3);
+      while (distractors.length < 3) distractors.push(`Option ${distractors.length + 2}`);
+      return {
+        question: `Which term best completes: "${sentence.replace(term, '____')}"?`,
+        options: [term, ...distractors],
+        correctAnswer: term,
+      };
+    }), null, 2);
+  }
+
+  return JSON.stringify(pick(6).map(sentence => ({
+    question: `Explain "${keyTerm(sentence)}" as described in the notes.`,
+    answer: sentence,
+  })), null, 2);
+}
+
+function mockTutorContent(message: string, history: ConversationTurn[] = []): string {
+  // Summary requests get a digest of the transcript they were given
+  if (/Summarize the conversation/.test(message)) {
+    const turns = message.split('\n').filter(line => /^(Student|Tutor):/.test(line));
+    return `(Mock summary) ${turns.length} earlier turns. ${turns.slice(-2).join(' ')}`;
+  }
+  const question = message.match(/Student question:\s*([\s\S]*?)(\n\n|$)/)?.[1]?.trim() ?? message.trim();
+  // Grounded prompts list labelled passages; answer from the first one and cite it
+  const passage = message.match(/\[(P\d+)\] from "[^"]*":\n([^\n]+)/);
+  const sentences = passage ? [`${passage[2].split(/(?<=[.!?])\s+/)[0]} [${passage[1]}]`] : extractSentences(message);
+  const previous = [...history].reverse().find(turn => turn.role === 'assistant');
+  const followUp = previous ? `\n\nFollowing on from my last answer: ${previous.content.split('\n')[0]}` : '';
+  return `(Mock tutor) You asked: "${question}"\n\nThe most relevant part of your notes says: ${sentences[0]}${followUp}`;
+}
+
+export function createMockProvider(settings: MockSettings): LLMProvider {
+  const respond = (request: ProviderRequest) =>
+    request.agent === 'study' ? mockStudyContent(request.message) : mockTutorContent(request.message, request.history);
+
+  const sendMessage = async (request: ProviderRequest): Promise<ProviderResponse> => {
+    await wait(settings.latencyMs, request.signal);
+    return { content: respond(request), sessionId: request.sessionId ?? createSessionId(request.agent) };
+  };
+
+  const streamMessage = async (
+    request: ProviderRequest,
+    onToken: (delta: string) => void
+  ): Promise<ProviderResponse> => {
+    const content = respond(request);
+    const chunks = content.match(/[\s\S]{1,24}/g) ?? [];
+    const delay = chunks.length > 0 ? settings.latencyMs / chunks.length : 0;
+    for (const chunk of chunks) {
+      await wait(delay, request.signal);
+      onToken(chunk);
+    }
+    return { content, sessionId: request.sessionId ?? createSessionId(request.agent) };
+  };
+
+  return {
+    id: 'mock',
+    label: 'Mock (offline)',
+    sendMessage,
+    streamMessage,
+  };
+}
@@ -0,0 +1,108 @@
+import { readServerSentEvents } from './sse';
+import { ProviderError, createSessionId } from './types';
+import type { LLMProvider, OpenAISettings, ProviderRequest, ProviderResponse } from './types';
+
+// Any gateway exposing the OpenAI /chat/completions API
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+const SYSTEM_PROMPTS: Record<ProviderRequest['agent'], string> = {
+  study: 'You generate study materials (flashcards, multiple choice questions, mock tests) from student notes. Follow the requested output format exactly.',
+  tutor: 'You are a patient tutor. Answer student questions clearly and concisely using their notes.',
+};
+
+export function createOpenAICompatibleProvider(settings: OpenAISettings): LLMProvider {
+  // OpenAI-style APIs are stateless, so conversation history is kept per session id
+  const sessions = new Map<string, ChatCompletionMessage[]>();
+
+  const buildRequest = (request: ProviderRequest, stream: boolean) => {
+    if (!settings.baseUrl) {
+      throw new ProviderError('openai', 'No base URL configured for the OpenAI-compatible provider. Add one in Settings.');
+    }
+
+    const sessionId = request.sessionId ?? createSessionId(request.agent);
+    const system: ChatCompletionMessage = { role: 'system', content: SYSTEM_PROMPTS[request.agent] };
+    const history = request.history
+      ? [system, ...request.history]
+      : sessions.get(sessionId) ?? [system];
+    const messages: ChatCompletionMessage[] = [...history, { role: 'user', content: request.message }];
+
+    const init: RequestInit = {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        temperature: settings.temperature,
+        messages,
+        stream,
+      }),
+      signal: request.signal,
+    };
+
+    return { sessionId, messages, init, url: `${settings.baseUrl.replace(/\/$/, '')}/chat/completions` };
+  };
+
+  const remember = (sessionId: string, messages: ChatCompletionMessage[], content: string) => {
+    sessions.set(sessionId, [...messages, { role: 'assistant', content }]);
+  };
+
+  const ensureOk = async (response: Response) => {
+    if (!response.ok) {
+      const text = await response.text();
+      throw new ProviderError('openai', `Request failed (${response.status}): ${text.substring(0, 200)}`, response.status);
+    }
+  };
+
+  const sendMessage = async (request: ProviderRequest): Promise<ProviderResponse> => {
+    const { sessionId, messages, init, url } = buildRequest(request, false);
+    const response = await fetch(url, init);
+    await ensureOk(response);
+
+    const data = await response.json();
+    const content: string = data?.choices?.[0]?.message?.content ?? '';
+    remember(sessionId, messages, content);
+    return { content, sessionId, raw: data };
+  };
+
+  const streamMessage = async (
+    request: ProviderRequest,
+    onToken: (delta: string) => void
+  ): Promise<ProviderResponse> => {
+    const { sessionId, messages, init, url } = buildRequest(request, true);
+    const response = await fetch(url, init);
+    await ensureOk(response);
+
+    if (!response.body) {
+      throw new ProviderError('openai', 'Streaming is not supported by this browser');
+    }
+
+    let content = '';
+    await readServerSentEvents(response.body, (payload) => {
+      try {
+        const delta: string | undefined = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onToken(delta);
+        }
+      } catch {
+        // Ignore keep-alive and malformed event lines
+      }
+    });
+
+    remember(sessionId, messages, content);
+    return { content, sessionId };
+  };
+
+  return {
+    id: 'openai',
+    label: `OpenAI-compatible (${settings.model})`,
+    sendMessage,
+    streamMessage,
+  };
+}
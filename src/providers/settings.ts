@@ -0,0 +1,46 @@
+import type { ProviderSettings } from './types';
+
+// Provider settings persisted in localStorage; keys never leave the browser
+
+const STORAGE_KEY = 'studygenius.providerSettings';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'lyzr',
+  lyzr: {
+    baseUrl: 'https://agent-prod.studio.lyzr.ai',
+    apiKey: '',
+    userId: 'studygenius@local',
+    // Agent IDs per PRD specification
+    studyAgentId: '68e525691cb4a3eb612e3d32',
+    tutorAgentId: '68e525750cde5ffc91eee6ea',
+  },
+  openai: {
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey: '',
+    model: 'gpt-4o-mini',
+    temperature: 0.3,
+  },
+  mock: {
+    latencyMs: 600,
+  },
+};
+
+export function loadProviderSettings(): ProviderSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_PROVIDER_SETTINGS;
+    const parsed = JSON.parse(stored) as Partial<ProviderSettings>;
+    return {
+      provider: parsed.provider ?? DEFAULT_PROVIDER_SETTINGS.provider,
+      lyzr: { ...DEFAULT_PROVIDER_SETTINGS.lyzr, ...parsed.lyzr },
+      openai: { ...DEFAULT_PROVIDER_SETTINGS.openai, ...parsed.openai },
+      mock: { ...DEFAULT_PROVIDER_SETTINGS.mock, ...parsed.mock },
+    };
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+}
+
+export function saveProviderSettings(settings: ProviderSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,32 @@
+// Minimal server-sent events reader for streaming fetch responses
+
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onData: (payload: string) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith('data:')) return;
+    // A single optional space follows the colon; anything else is payload
+    const payload = line.slice(line.startsWith('data: ') ? 6 : 5).replace(/\r$/, '');
+    if (payload.trim() === '[DONE]') return;
+    onData(payload);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are newline delimited; keep the trailing partial line
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+
+  buffer += decoder.decode();
+  if (buffer) handleLine(buffer);
+}
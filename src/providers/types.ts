@@ -0,0 +1,84 @@
+// Provider-agnostic contract for talking to the study and tutor agents
+
+export type AgentRole = 'study' | 'tutor';
+
+export type ProviderId = 'lyzr' | 'openai' | 'mock';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ProviderRequest {
+  agent: AgentRole;
+  message: string;
+  sessionId?: string;
+  // Prior turns chosen by the caller; replaces any history the provider keeps itself
+  history?: ConversationTurn[];
+  signal?: AbortSignal;
+}
+
+export interface ProviderResponse {
+  content: string;
+  sessionId: string;
+  raw?: unknown;
+}
+
+export interface LLMProvider {
+  readonly id: ProviderId;
+  readonly label: string;
+  sendMessage(request: ProviderRequest): Promise<ProviderResponse>;
+  // Optional incremental delivery; onToken receives each new text delta
+  streamMessage?(request: ProviderRequest, onToken: (delta: string) => void): Promise<ProviderResponse>;
+}
+
+export interface LyzrSettings {
+  baseUrl: string;
+  apiKey: string;
+  userId: string;
+  studyAgentId: string;
+  tutorAgentId: string;
+}
+
+export interface OpenAISettings {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  temperature: number;
+}
+
+export interface MockSettings {
+  latencyMs: number;
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  lyzr: LyzrSettings;
+  openai: OpenAISettings;
+  mock: MockSettings;
+}
+
+export class ProviderError extends Error {
+  readonly provider: ProviderId;
+  readonly status?: number;
+
+  constructor(provider: ProviderId, message: string, status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.status = status;
+  }
+}
+
+export function createSessionId(agent: AgentRole): string {
+  return `${agent}-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+// For agents that only take a single message, prior turns travel inline
+export function inlineHistory(request: ProviderRequest): string {
+  if (!request.history?.length) return request.message;
+  const transcript = request.history
+    .map(turn => `${turn.role === 'user' ? 'Student' : 'Tutor'}: ${turn.content}`)
+    .join('\n\n');
+  return `Conversation so far:\n${transcript}\n\n${request.message}`;
+}
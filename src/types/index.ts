@@ -0,0 +1,147 @@
+// Shared data types for study materials and the tutor chat
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ReviewState {
+  ease: number;
+  interval: number; // days
+  repetitions: number;
+  lapses: number;
+  due: number; // epoch ms
+  lastReviewed?: number;
+}
+
+export interface Flashcard {
+  question: string;
+  answer: string;
+  source?: string; // NoteSource id
+  topics?: string[]; // Topic names from the notes' outline
+  review?: ReviewState;
+}
+
+export interface MCQ {
+  question: string;
+  options: string[];
+  correctAnswer: string;
+  source?: string; // NoteSource id
+  topics?: string[]; // Topic names from the notes' outline
+}
+
+export type MockQuestionType = 'mcq' | 'truefalse' | 'short';
+
+// options is empty for short-answer questions and ['True', 'False'] for true/false
+export interface MockTestQuestion extends MCQ {
+  type?: MockQuestionType; // missing on tests saved before question types existed
+  explanation: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+  citations?: NoteCitation[]; // passages the tutor was given, cited as [P1], [P2], ...
+}
+
+export interface NoteCitation {
+  id: string;
+  sourceId: string;
+  start: number;
+  end: number;
+  excerpt: string;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  sessionId: string; // stable tutor session for the whole thread
+  messages: ChatMessage[];
+  summary?: string; // condensed form of messages[0..summarizedCount)
+  summarizedCount?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type MaterialType = 'flashcards' | 'mcqs' | 'mocktest';
+
+export type Difficulty = 'easy' | 'medium' | 'hard' | 'mixed';
+
+export type BloomLevel = 'remember' | 'understand' | 'apply' | 'analyze' | 'evaluate' | 'create' | 'mixed';
+
+export interface GenerationOptions {
+  count: number;
+  difficulty: Difficulty;
+  bloomLevel: BloomLevel;
+  focusTopics: string[];
+  language: string;
+}
+
+export type NoteSourceKind = 'pdf' | 'docx' | 'markdown' | 'html' | 'text' | 'pasted';
+
+export interface NoteSource {
+  id: string;
+  name: string;
+  kind: NoteSourceKind;
+  text: string;
+  enabled: boolean;
+  addedAt: number;
+}
+
+export interface TermDefinition {
+  term: string;
+  definition: string;
+}
+
+// One heading of the outline extracted from the notes
+export interface Topic {
+  id: string;
+  name: string; // unique within an outline; items are tagged by name
+  level: number; // heading depth, 1 = chapter
+  sourceId: string;
+  start: number; // character range of the section's own text in the source
+  end: number;
+  keyTerms: string[];
+  definitions: TermDefinition[];
+}
+
+export interface Subject {
+  id: string;
+  name: string;
+  notes: string; // combined text of the enabled sources
+  sources: NoteSource[];
+  flashcards: Flashcard[];
+  mcqs: MCQ[];
+  mockTest: MockTestQuestion[];
+  chatThreads: ChatThread[];
+  activeThreadId?: string;
+  chatMessages?: ChatMessage[]; // legacy single conversation, migrated into chatThreads
+  generationOptions?: Record<MaterialType, GenerationOptions>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type StudyActivity = 'quiz' | 'mocktest' | 'review';
+
+export interface ItemOutcome {
+  question: string;
+  correct: boolean; // for flashcard reviews: anything but "again"
+  answer?: string; // the chosen option, typed answer or review grade
+  sourceName?: string; // note source the item came from
+  topics?: string[];
+}
+
+// One MCQ quiz attempt, mock test run or flashcard review
+export interface StudySession {
+  id: string;
+  subjectId: string | null; // null while the notes have not been saved to the library
+  subjectName: string;
+  activity: StudyActivity;
+  startedAt: number;
+  endedAt: number;
+  items: ItemOutcome[];
+  seed?: number; // option shuffle of a quiz or mock test, to replay the order the student saw
+}
+
+export type SubjectSummary = Pick<Subject, 'id' | 'name' | 'createdAt' | 'updatedAt'> & {
+  itemCount: number;
+};
@@ -0,0 +1,245 @@
+import type { ItemOutcome, StudyActivity, StudySession } from '../types';
+
+// Aggregations behind the progress dashboard. Sessions come from the library;
+// everything here is pure so it can run over any subset of them
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Time left open in a tab is not study time
+const MAX_ITEM_MS = 5 * 60 * 1000;
+
+export const ACTIVITY_LABELS: Record<StudyActivity, string> = {
+  quiz: 'MCQ quiz',
+  mocktest: 'Mock test',
+  review: 'Flashcard review',
+};
+
+export function createStudySession(
+  activity: StudyActivity,
+  subject: { id: string; name: string } | null,
+  items: ItemOutcome[],
+  startedAt: number,
+  endedAt: number = Date.now(),
+  id: string = `${activity}-${startedAt}-${Math.random().toString(36).substring(2, 8)}`
+): StudySession {
+  return {
+    id,
+    subjectId: subject?.id ?? null,
+    subjectName: subject?.name ?? 'Unsaved session',
+    activity,
+    startedAt,
+    endedAt: Math.max(startedAt, endedAt),
+    items,
+  };
+}
+
+export function sessionDuration(session: StudySession): number {
+  return Math.min(session.endedAt - session.startedAt, Math.max(1, session.items.length) * MAX_ITEM_MS);
+}
+
+export function sessionAccuracy(session: StudySession): number {
+  if (session.items.length === 0) return 0;
+  return session.items.filter(item => item.correct).length / session.items.length;
+}
+
+// Local calendar day, so a late-night session counts for the day it felt like
+export function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export interface StudyTotals {
+  sessions: number;
+  answered: number;
+  correct: number;
+  accuracy: number; // 0..1
+}
+
+export function studyTotals(sessions: StudySession[]): StudyTotals {
+  const items = sessions.flatMap(session => session.items);
+  const correct = items.filter(item => item.correct).length;
+  return { sessions: sessions.length, answered: items.length, correct, accuracy: items.length > 0 ? correct / items.length : 0 };
+}
+
+export interface DailyAccuracy {
+  day: string;
+  timestamp: number; // start of the day
+  correct: number;
+  total: number;
+}
+
+// One entry per day for the last `days` days, including days without study
+export function accuracyByDay(sessions: StudySession[], days: number = 14, now: number = Date.now()): DailyAccuracy[] {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  const buckets = Array.from({ length: days }, (_, i) => {
+    const start = new Date(today);
+    start.setDate(today.getDate() - (days - 1 - i));
+    return { day: dayKey(start.getTime()), timestamp: start.getTime(), correct: 0, total: 0 };
+  });
+  const byDay = new Map(buckets.map(bucket => [bucket.day, bucket]));
+
+  for (const session of sessions) {
+    const bucket = byDay.get(dayKey(session.startedAt));
+    if (!bucket) continue;
+    bucket.total += session.items.length;
+    bucket.correct += session.items.filter(item => item.correct).length;
+  }
+  return buckets;
+}
+
+export interface TopicStats {
+  topic: string;
+  correct: number;
+  total: number;
+  accuracy: number;
+}
+
+// Outcomes recorded before items were tagged fall back to their source
+function outcomeTopics(item: ItemOutcome): string[] {
+  if (item.topics && item.topics.length > 0) return item.topics;
+  return item.sourceName ? [item.sourceName] : [];
+}
+
+// Lowest accuracy first; topics with too few answers to judge are left out
+export function weakestTopics(sessions: StudySession[], limit: number = 5, minAnswers: number = 3): TopicStats[] {
+  const stats = new Map<string, TopicStats>();
+  for (const item of sessions.flatMap(session => session.items)) {
+    for (const topic of outcomeTopics(item)) {
+      const entry = stats.get(topic) ?? { topic, correct: 0, total: 0, accuracy: 0 };
+      entry.total++;
+      if (item.correct) entry.correct++;
+      stats.set(topic, entry);
+    }
+  }
+  return [...stats.values()]
+    .filter(entry => entry.total >= minAnswers)
+    .map(entry => ({ ...entry, accuracy: entry.correct / entry.total }))
+    .sort((a, b) => a.accuracy - b.accuracy || b.total - a.total)
+    .slice(0, limit);
+}
+
+export interface MissedQuestion {
+  question: string;
+  subjectName: string;
+  misses: number;
+  attempts: number;
+  lastMissedAt: number;
+}
+
+export function questionKey(question: string): string {
+  return question.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function mostMissedQuestions(sessions: StudySession[], limit: number = 10): MissedQuestion[] {
+  const stats = new Map<string, MissedQuestion>();
+  for (const session of sessions) {
+    for (const item of session.items) {
+      const key = `${session.subjectId ?? ''}\n${questionKey(item.question)}`;
+      const entry = stats.get(key) ?? { question: item.question, subjectName: session.subjectName, misses: 0, attempts: 0, lastMissedAt: 0 };
+      entry.attempts++;
+      if (!item.correct) {
+        entry.misses++;
+        entry.lastMissedAt = Math.max(entry.lastMissedAt, session.startedAt);
+      }
+      stats.set(key, entry);
+    }
+  }
+  return [...stats.values()]
+    .filter(entry => entry.misses > 0)
+    .sort((a, b) => b.misses - a.misses || b.misses / b.attempts - a.misses / a.attempts || b.lastMissedAt - a.lastMissedAt)
+    .slice(0, limit);
+}
+
+export interface WeakSpot {
+  question: string;
+  wrongAnswers: string[]; // what the student picked or typed instead, most recent first
+  sourceName?: string;
+  misses: number;
+  attempts: number;
+}
+
+// Questions the student still gets wrong: the latest attempt failed, or it has
+// failed more often than not. Worst and most recent first
+export function weakSpots(sessions: StudySession[], limit: number = 12): WeakSpot[] {
+  const spots = new Map<string, WeakSpot & { lastCorrect: boolean; lastSeenAt: number }>();
+  for (const session of sessions) {
+    for (const item of session.items) {
+      const key = questionKey(item.question);
+      const spot = spots.get(key) ?? { question: item.question, wrongAnswers: [], misses: 0, attempts: 0, lastCorrect: true, lastSeenAt: 0 };
+      spot.attempts++;
+      spot.lastCorrect = item.correct;
+      spot.lastSeenAt = session.startedAt;
+      spot.sourceName = item.sourceName ?? spot.sourceName;
+      if (!item.correct) {
+        spot.misses++;
+        if (item.answer && session.activity !== 'review' && !spot.wrongAnswers.includes(item.answer)) {
+          spot.wrongAnswers = [item.answer, ...spot.wrongAnswers];
+        }
+      }
+      spots.set(key, spot);
+    }
+  }
+  return [...spots.values()]
+    .filter(spot => spot.misses > 0 && (!spot.lastCorrect || spot.misses * 2 > spot.attempts))
+    .sort((a, b) => b.misses / b.attempts - a.misses / a.attempts || b.misses - a.misses || b.lastSeenAt - a.lastSeenAt)
+    .slice(0, limit)
+    .map(({ question, wrongAnswers, sourceName, misses, attempts }) => ({ question, wrongAnswers, sourceName, misses, attempts }));
+}
+
+export interface StudyStreak {
+  current: number; // consecutive days up to today, or up to yesterday if today has no study yet
+  longest: number;
+}
+
+export function studyStreak(sessions: StudySession[], now: number = Date.now()): StudyStreak {
+  const days = new Set(sessions.map(session => dayKey(session.startedAt)));
+  const shift = (timestamp: number, by: number) => {
+    const date = new Date(timestamp);
+    date.setDate(date.getDate() + by);
+    return date.getTime();
+  };
+
+  let cursor = days.has(dayKey(now)) ? now : shift(now, -1);
+  let current = 0;
+  while (days.has(dayKey(cursor))) {
+    current++;
+    cursor = shift(cursor, -1);
+  }
+
+  let longest = 0;
+  for (const day of days) {
+    const [year, month, date] = day.split('-').map(Number);
+    const start = new Date(year, month - 1, date).getTime();
+    if (days.has(dayKey(shift(start, -1)))) continue; // not the first day of a run
+    let length = 1;
+    while (days.has(dayKey(shift(start, length)))) length++;
+    longest = Math.max(longest, length);
+  }
+
+  return { current, longest };
+}
+
+export interface TimeSpent {
+  total: number;
+  lastWeek: number;
+  byActivity: Record<StudyActivity, number>;
+}
+
+export function timeSpent(sessions: StudySession[], now: number = Date.now()): TimeSpent {
+  const result: TimeSpent = { total: 0, lastWeek: 0, byActivity: { quiz: 0, mocktest: 0, review: 0 } };
+  for (const session of sessions) {
+    const duration = sessionDuration(session);
+    result.total += duration;
+    result.byActivity[session.activity] += duration;
+    if (now - session.startedAt < 7 * DAY_MS) result.lastWeek += duration;
+  }
+  return result;
+}
+
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return `${Math.round(ms / 1000)}s`;
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
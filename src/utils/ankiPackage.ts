@@ -0,0 +1,247 @@
+// Builds and reads Anki .apkg packages: a zip holding a legacy (schema 11)
+// collection.anki2 SQLite database and a media map. sql.js and JSZip are loaded on demand
+
+export interface AnkiNote {
+  front: string; // HTML
+  back: string; // HTML
+  tags: string[];
+}
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+// Fixed ids keep the note type stable, so re-imports update instead of duplicating it
+const MODEL_ID = 1704067200001;
+const DEFAULT_DECK_ID = 1;
+const FIELD_SEPARATOR = '\x1f';
+
+const CARD_CSS = `.card {
+  font-family: arial;
+  font-size: 20px;
+  text-align: left;
+  color: black;
+  background-color: white;
+}
+ol.options { margin-top: 0.5em; }
+.explanation { margin-top: 1em; color: #555; font-size: 0.9em; }`;
+
+function field(name: string, ord: number) {
+  return { name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] };
+}
+
+function buildModel(deckId: number, now: number) {
+  return {
+    id: MODEL_ID,
+    name: 'StudyGenius Basic',
+    type: 0,
+    mod: Math.floor(now / 1000),
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [{
+      name: 'Card 1',
+      ord: 0,
+      qfmt: '{{Front}}',
+      afmt: '{{FrontSide}}<hr id=answer>{{Back}}',
+      did: null,
+      bqfmt: '',
+      bafmt: '',
+    }],
+    flds: [field('Front', 0), field('Back', 1)],
+    css: CARD_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    tags: [],
+    vers: [],
+    req: [[0, 'any', [0]]],
+  };
+}
+
+function buildDeck(id: number, name: string, now: number) {
+  return {
+    id,
+    name,
+    desc: '',
+    mod: Math.floor(now / 1000),
+    usn: -1,
+    collapsed: false,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+    dyn: 0,
+    extendNew: 10,
+    extendRev: 50,
+    conf: 1,
+  };
+}
+
+const DECK_CONFIG = {
+  1: {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, separate: true, order: 1, perDay: 20, bury: true },
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+    rev: { perDay: 100, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: true },
+  },
+};
+
+async function sha1Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Derived from the name so repeated exports land in the same deck
+function deckIdFor(name: string): number {
+  let hash = 0;
+  for (const char of name) hash = (hash * 31 + char.charCodeAt(0)) % 1_000_000_000;
+  return 1_500_000_000_000 + hash;
+}
+
+export function ankiTag(text: string): string {
+  return text.trim().replace(/\s+/g, '_').replace(/[^\p{L}\p{N}_:-]/gu, '');
+}
+
+async function loadLibraries() {
+  const [{ default: initSqlJs }, { default: wasmUrl }, { default: JSZip }] = await Promise.all([
+    import('sql.js'),
+    import('sql.js/dist/sql-wasm-browser.wasm?url'),
+    import('jszip'),
+  ]);
+  return { SQL: await initSqlJs({ locateFile: () => wasmUrl }), JSZip };
+}
+
+export async function buildAnkiPackage(deckName: string, notes: AnkiNote[]): Promise<Blob> {
+  const { SQL, JSZip } = await loadLibraries();
+  const db = new SQL.Database();
+
+  try {
+    const now = Date.now();
+    const seconds = Math.floor(now / 1000);
+    const deckId = deckIdFor(deckName);
+
+    db.run(SCHEMA);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      seconds,
+      now,
+      now,
+      JSON.stringify({
+        nextPos: notes.length + 1,
+        estTimes: true,
+        activeDecks: [deckId],
+        sortType: 'noteFld',
+        timeLim: 0,
+        sortBackwards: false,
+        addToCur: true,
+        curDeck: deckId,
+        newSpread: 0,
+        dueCounts: true,
+        curModel: String(MODEL_ID),
+        collapseTime: 1200,
+      }),
+      JSON.stringify({ [MODEL_ID]: buildModel(deckId, now) }),
+      JSON.stringify({
+        [DEFAULT_DECK_ID]: buildDeck(DEFAULT_DECK_ID, 'Default', now),
+        [deckId]: buildDeck(deckId, deckName, now),
+      }),
+      JSON.stringify(DECK_CONFIG),
+      '{}',
+    ]);
+
+    for (const [index, note] of notes.entries()) {
+      const noteId = now + index;
+      const sortField = stripHtml(note.front);
+      // Stable per deck and question, so importing an updated export updates the old notes
+      const guid = (await sha1Hex(`${deckName}\n${sortField}`)).substring(0, 10);
+      const checksum = parseInt((await sha1Hex(sortField)).substring(0, 8), 16);
+      const tags = note.tags.length > 0 ? ` ${note.tags.map(ankiTag).filter(Boolean).join(' ')} ` : '';
+
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [
+        noteId, guid, MODEL_ID, seconds, tags, [note.front, note.back].join(FIELD_SEPARATOR), sortField, checksum,
+      ]);
+      db.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')', [
+        noteId, noteId, deckId, seconds, index + 1,
+      ]);
+    }
+
+    const zip = new JSZip();
+    zip.file('collection.anki2', db.export());
+    zip.file('media', '{}');
+    return await zip.generateAsync({ type: 'blob', mimeType: 'application/octet-stream' });
+  } finally {
+    db.close();
+  }
+}
+
+export interface AnkiDeckContents {
+  fieldNames: string[]; // of the most used note type
+  notes: { fields: string[]; tags: string[] }[]; // fields are HTML
+}
+
+export async function readAnkiPackage(file: Blob): Promise<AnkiDeckContents> {
+  const { SQL, JSZip } = await loadLibraries();
+  const zip = await JSZip.loadAsync(file);
+
+  // Newer Anki writes collection.anki21 next to a placeholder collection.anki2
+  const collection = zip.file('collection.anki21') ?? zip.file('collection.anki2');
+  if (!collection) {
+    throw new Error(zip.file('collection.anki21b')
+      ? 'This deck uses the newest Anki format. Re-export it with "Support older Anki versions" ticked.'
+      : 'This file does not contain an Anki collection.');
+  }
+
+  const db = new SQL.Database(await collection.async('uint8array'));
+  try {
+    const models = JSON.parse(String(db.exec('SELECT models FROM col')[0]?.values[0]?.[0] ?? '{}')) as
+      Record<string, { flds?: { name: string; ord: number }[] }>;
+    const rows = db.exec('SELECT mid, flds, tags FROM notes ORDER BY id')[0]?.values ?? [];
+
+    const usage = new Map<string, number>();
+    rows.forEach(([mid]) => usage.set(String(mid), (usage.get(String(mid)) ?? 0) + 1));
+    const [mainModel] = [...usage.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+    const fieldNames = [...(models[mainModel ?? '']?.flds ?? [])]
+      .sort((a, b) => a.ord - b.ord)
+      .map(field => field.name);
+
+    return {
+      fieldNames,
+      notes: rows.map(([, fields, tags]) => ({
+        fields: String(fields).split(FIELD_SEPARATOR),
+        tags: String(tags).trim().split(/\s+/).filter(Boolean),
+      })),
+    };
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,80 @@
+import { createSessionId } from '../providers';
+import type { ConversationTurn } from '../providers';
+import type { ChatMessage, ChatThread } from '../types';
+import { estimateTokens } from './chunking';
+
+// Tutor chat threads per subject, and the token-budgeted conversation context
+// that goes with each question: recent turns verbatim, older ones summarized
+
+export const DEFAULT_THREAD_TITLE = 'New chat';
+export const HISTORY_TOKEN_BUDGET = 1500;
+
+export function createThread(title: string = DEFAULT_THREAD_TITLE, messages: ChatMessage[] = []): ChatThread {
+  const now = Date.now();
+  return {
+    id: `thread-${now}-${Math.random().toString(36).substring(2, 8)}`,
+    title,
+    sessionId: createSessionId('tutor'),
+    messages,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function threadTitleFromQuestion(question: string): string {
+  const line = question.trim().split('\n')[0];
+  return line.length > 40 ? `${line.substring(0, 40).trim()}…` : line || DEFAULT_THREAD_TITLE;
+}
+
+// A branch continues from a message in its own session, leaving the original intact
+export function branchThread(thread: ChatThread, messageIndex: number): ChatThread {
+  const messages = thread.messages.slice(0, messageIndex + 1);
+  const branch = createThread(`${thread.title} (branch)`, messages);
+  const summarizedCount = thread.summarizedCount ?? 0;
+  return summarizedCount > 0 && summarizedCount <= messages.length
+    ? { ...branch, summary: thread.summary, summarizedCount }
+    : branch;
+}
+
+export function threadsFromLegacyMessages(messages: ChatMessage[] = []): ChatThread[] {
+  if (messages.length === 0) return [createThread()];
+  const firstQuestion = messages.find(message => message.role === 'user')?.content ?? '';
+  return [createThread(threadTitleFromQuestion(firstQuestion), messages)];
+}
+
+// Index of the oldest message that still fits in the budget, counting back from the end
+function fitFromEnd(messages: ChatMessage[], budget: number): number {
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    used += estimateTokens(messages[i].content);
+    if (used > budget) return i + 1;
+  }
+  return 0;
+}
+
+// Messages that have fallen out of the budget without being summarized yet.
+// Summaries cover down to half the budget so they are not redone every turn
+export function pendingSummary(thread: ChatThread, budget: number = HISTORY_TOKEN_BUDGET): { from: number; to: number } | null {
+  const from = thread.summarizedCount ?? 0;
+  if (fitFromEnd(thread.messages, budget) <= from) return null;
+  return { from, to: Math.max(from, fitFromEnd(thread.messages, budget / 2)) };
+}
+
+export function historyTurns(thread: ChatThread, budget: number = HISTORY_TOKEN_BUDGET): ConversationTurn[] {
+  const start = Math.max(thread.summarizedCount ?? 0, fitFromEnd(thread.messages, budget));
+  return thread.messages.slice(start).map(message => ({ role: message.role, content: message.content }));
+}
+
+export function buildSummaryPrompt(previousSummary: string | undefined, messages: ChatMessage[]): string {
+  const transcript = messages
+    .map(message => `${message.role === 'user' ? 'Student' : 'Tutor'}: ${message.content}`)
+    .join('\n');
+  return `Summarize the conversation below between a student and their tutor in at most 150 words. Keep the topics covered, the explanations given and anything the student found confusing, so the tutor can continue seamlessly.
+${previousSummary ? `\nEarlier summary: ${previousSummary}\n` : ''}
+${transcript}`;
+}
+
+export function buildTutorMessage(passages: string, summary: string | undefined, question: string): string {
+  const earlier = summary ? `Summary of our earlier conversation: ${summary}\n\n` : '';
+  return `Relevant passages from the student's notes:\n\n${passages}\n\n${earlier}Student question: ${question}\n\nProvide a concise explanation that directly answers the question using these passages. Cite every passage you rely on inline with its label, e.g. [P2]. If the passages do not cover the question, say so instead of guessing. If the question follows up on earlier answers, build on them.`;
+}
@@ -0,0 +1,185 @@
+import type { LLMProvider } from '../providers';
+import type { GenerationOptions, MaterialType, MockTestQuestion } from '../types';
+import { runWithConcurrency } from './index';
+import { allocateCounts, splitIntoChunks } from './chunking';
+import { GenerationError, generateWithRepair } from './repairLoop';
+import type { GenerationAttempt, GenerationResult, ParseOutcome, StudyItem } from './repairLoop';
+import type { RejectedItem } from './studySchema';
+import { dedupeByQuestion } from './similarity';
+import { buildReplacementInstruction, buildStudyPrompt } from './studyPrompts';
+
+// Map-reduce generation for long notes: generate per chunk in parallel, merge
+// with near-duplicate removal, then top up or trim to the requested count
+
+export interface GenerationProgress {
+  phase: 'generating' | 'balancing';
+  completed: number;
+  total: number;
+}
+
+export interface StudyGenerationOptions {
+  provider: LLMProvider;
+  type: MaterialType;
+  notes: string;
+  generation: GenerationOptions;
+  parse: (content: string) => ParseOutcome;
+  maxAttempts: number;
+  chunkTokens: number;
+  concurrency: number;
+  instructions?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: GenerationProgress) => void;
+  onItems?: (items: StudyItem[]) => void; // a preview of the valid items received so far
+}
+
+export interface ItemRegenerationOptions extends Omit<StudyGenerationOptions, 'chunkTokens' | 'concurrency' | 'onProgress' | 'onItems'> {
+  item: StudyItem;
+  avoidQuestions: string[]; // the rest of the set, which the replacement must not repeat
+}
+
+interface ChunkOutcome {
+  items: StudyItem[];
+  rejected: RejectedItem[];
+  attempts: GenerationAttempt[];
+  error?: unknown;
+}
+
+function labelAttempts(attempts: GenerationAttempt[], chunk: number): GenerationAttempt[] {
+  return attempts.map(attempt => ({ ...attempt, chunk }));
+}
+
+// Takes one item from each chunk in turn so no single chunk dominates
+function interleave(groups: StudyItem[][]): StudyItem[] {
+  const merged: StudyItem[] = [];
+  const longest = Math.max(0, ...groups.map(group => group.length));
+  for (let i = 0; i < longest; i++) {
+    for (const group of groups) {
+      if (i < group.length) merged.push(group[i]);
+    }
+  }
+  return merged;
+}
+
+export async function generateStudyItems(options: StudyGenerationOptions): Promise<GenerationResult> {
+  const { provider, type, notes, parse, maxAttempts, signal, onProgress, onItems } = options;
+  const { count, ...guidance } = options.generation;
+  const chunks = splitIntoChunks(notes, options.chunkTokens);
+
+  // Streamed items per chunk, merged the same way as the final result
+  const previews: StudyItem[][] = chunks.map(() => []);
+  const previewChunk = (chunkNumber: number) => (items: StudyItem[]) => {
+    previews[chunkNumber - 1] = items;
+    onItems?.(dedupeByQuestion(interleave(previews)).slice(0, count));
+  };
+
+  const runChunk = async (text: string, chunkNumber: number, chunkCount: number, avoidQuestions?: string[]): Promise<ChunkOutcome> => {
+    try {
+      const result = await generateWithRepair({
+        provider,
+        type,
+        prompt: buildStudyPrompt(type, text, { count: chunkCount, guidance, instructions: options.instructions, avoidQuestions }),
+        parse,
+        maxAttempts,
+        signal,
+        onItems: onItems && !avoidQuestions ? previewChunk(chunkNumber) : undefined,
+      });
+      return { ...result, attempts: labelAttempts(result.attempts, chunkNumber) };
+    } catch (error) {
+      // Cancellation aborts the whole run rather than a single chunk
+      if (signal?.aborted) throw error;
+      const attempts = error instanceof GenerationError ? labelAttempts(error.attempts, chunkNumber) : [];
+      return { items: [], rejected: [], attempts, error };
+    }
+  };
+
+  if (chunks.length <= 1) {
+    onProgress?.({ phase: 'generating', completed: 0, total: 1 });
+    return generateWithRepair({
+      provider,
+      type,
+      prompt: buildStudyPrompt(type, notes, { count, guidance, instructions: options.instructions }),
+      parse,
+      maxAttempts,
+      signal,
+      onItems,
+    });
+  }
+
+  // Chunks left without a share when there are more chunks than items are not asked at all
+  const counts = allocateCounts(chunks, count);
+  const assigned = chunks.map((chunk, index) => ({ chunk, index })).filter(entry => counts[entry.index] > 0);
+  onProgress?.({ phase: 'generating', completed: 0, total: assigned.length });
+
+  const settled = await runWithConcurrency(
+    assigned.map(({ chunk, index }) => () => runChunk(chunk.text, index + 1, counts[index])),
+    options.concurrency,
+    (completed, total) => onProgress?.({ phase: 'generating', completed, total })
+  );
+
+  const outcomes = settled.map(result => {
+    if (result.status === 'rejected') throw result.reason;
+    return result.value;
+  });
+
+  const attempts = outcomes.flatMap(outcome => outcome.attempts);
+  const rejected = outcomes.flatMap(outcome => outcome.rejected);
+  let merged = dedupeByQuestion(interleave(outcomes.map(outcome => outcome.items)));
+
+  // Balancing pass: ask the largest chunks for whatever is still missing
+  const missing = count - merged.length;
+  if (missing > 0 && merged.length > 0) {
+    const largest = chunks
+      .map((chunk, index) => ({ chunk, index }))
+      .sort((a, b) => b.chunk.tokens - a.chunk.tokens)
+      .slice(0, Math.min(missing, options.concurrency));
+    const topUpCounts = allocateCounts(largest.map(entry => entry.chunk), missing);
+    const avoid = merged.map(item => item.question);
+
+    onProgress?.({ phase: 'balancing', completed: 0, total: largest.length });
+    const topUps = await runWithConcurrency(
+      largest.map((entry, i) => () => runChunk(entry.chunk.text, entry.index + 1, topUpCounts[i], avoid)),
+      options.concurrency,
+      (completed, total) => onProgress?.({ phase: 'balancing', completed, total })
+    );
+
+    for (const result of topUps) {
+      if (result.status === 'rejected') throw result.reason;
+      attempts.push(...result.value.attempts);
+      rejected.push(...result.value.rejected);
+      merged = dedupeByQuestion([...merged, ...result.value.items]);
+    }
+  }
+
+  if (merged.length === 0) {
+    const firstError = outcomes.find(outcome => outcome.error)?.error;
+    throw new GenerationError(
+      firstError instanceof Error
+        ? `No chunk produced usable ${type}: ${firstError.message}`
+        : `No chunk produced usable ${type}.`,
+      attempts
+    );
+  }
+
+  return { items: merged.slice(0, count), rejected, attempts };
+}
+
+// One replacement item for a rejected one, generated from the notes it came from
+export async function regenerateStudyItem(options: ItemRegenerationOptions): Promise<GenerationResult> {
+  const { provider, type, notes, item, parse, maxAttempts, signal } = options;
+  const questionType = type === 'mocktest' ? (item as MockTestQuestion).type : undefined;
+
+  const result = await generateWithRepair({
+    provider,
+    type,
+    prompt: buildStudyPrompt(type, notes, {
+      count: 1,
+      guidance: options.generation,
+      instructions: buildReplacementInstruction(item.question, questionType) + (options.instructions ?? ''),
+      avoidQuestions: [item.question, ...options.avoidQuestions],
+    }),
+    parse,
+    maxAttempts,
+    signal,
+  });
+  return { ...result, items: result.items.slice(0, 1) };
+}
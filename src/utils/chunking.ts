@@ -0,0 +1,132 @@
+// Token-budgeted splitting of long notes along headings and paragraphs
+
+export interface NoteChunk {
+  index: number;
+  text: string;
+  tokens: number;
+}
+
+// Rough GPT-style estimate; good enough for budgeting prompts
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const SOURCE_HEADER = /^### \[S\d+\] /;
+const SECTION_BREAK = /^(#{1,6} |--- Page \d+ ---$)/;
+
+// Splits text into blocks that should stay together: a heading plus its
+// paragraph, or a single paragraph
+function splitBlocks(text: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    const block = current.join('\n').trim();
+    if (block) blocks.push(block);
+    current = [];
+  };
+
+  for (const line of text.split('\n')) {
+    if (SECTION_BREAK.test(line.trim())) {
+      flush();
+      current.push(line);
+    } else if (!line.trim()) {
+      // A heading keeps its first paragraph attached
+      if (current.length > 1 || (current.length === 1 && !SECTION_BREAK.test(current[0].trim()))) flush();
+    } else {
+      current.push(line);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+// Breaks an oversized block on sentence boundaries, then hard-wraps as a last resort
+function splitOversized(block: string, maxTokens: number): string[] {
+  const maxChars = maxTokens * 4;
+  const sentences = block.match(/[^.!?\n]+(?:[.!?]+|\n|$)/g) ?? [block];
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (sentence.length > maxChars) {
+      if (current.trim()) pieces.push(current.trim());
+      current = '';
+      for (let start = 0; start < sentence.length; start += maxChars) {
+        pieces.push(sentence.slice(start, start + maxChars).trim());
+      }
+      continue;
+    }
+    if (current.length + sentence.length > maxChars && current.trim()) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  }
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+}
+
+export function splitIntoChunks(text: string, maxTokens: number): NoteChunk[] {
+  const budget = Math.max(200, maxTokens);
+  if (estimateTokens(text) <= budget) {
+    return text.trim() ? [{ index: 0, text: text.trim(), tokens: estimateTokens(text) }] : [];
+  }
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+  let sourceHeader = '';
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const body = current.join('\n\n');
+    // Continuation chunks repeat the source header so provenance survives the split
+    chunks.push(sourceHeader && !SOURCE_HEADER.test(body) ? `${sourceHeader}\n${body}` : body);
+    current = [];
+    currentTokens = 0;
+  };
+
+  for (const block of splitBlocks(text)) {
+    const firstLine = block.split('\n')[0];
+    if (SOURCE_HEADER.test(firstLine)) {
+      flush();
+      sourceHeader = firstLine;
+    }
+
+    const pieces = estimateTokens(block) > budget ? splitOversized(block, budget) : [block];
+    for (const piece of pieces) {
+      const tokens = estimateTokens(piece);
+      if (currentTokens + tokens > budget) flush();
+      current.push(piece);
+      currentTokens += tokens;
+    }
+  }
+  flush();
+
+  return chunks.map((chunkText, index) => ({ index, text: chunkText, tokens: estimateTokens(chunkText) }));
+}
+
+// Shares a requested item count across chunks in proportion to their size.
+// Every chunk gets at least one item while there are enough to go round;
+// otherwise the largest chunks get them and the rest get none
+export function allocateCounts(chunks: NoteChunk[], total: number): number[] {
+  if (chunks.length === 0) return [];
+  const totalTokens = chunks.reduce((sum, chunk) => sum + chunk.tokens, 0) || 1;
+  const minimum = total >= chunks.length ? 1 : 0;
+  const counts = chunks.map(chunk => Math.max(minimum, Math.floor((chunk.tokens / totalTokens) * total)));
+
+  // Hand out the remainder to the largest chunks first
+  const order = chunks.map((chunk, index) => ({ index, tokens: chunk.tokens })).sort((a, b) => b.tokens - a.tokens);
+  let remainder = total - counts.reduce((sum, count) => sum + count, 0);
+  for (let i = 0; remainder > 0; i = (i + 1) % order.length, remainder--) {
+    counts[order[i].index]++;
+  }
+
+  // The minimum can overshoot; take the excess back from the biggest shares
+  for (; remainder < 0; remainder++) {
+    const largest = order.reduce((best, entry) => (counts[entry.index] > counts[best.index] ? entry : best), order[0]);
+    counts[largest.index]--;
+  }
+  return counts;
+}
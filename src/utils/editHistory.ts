@@ -0,0 +1,53 @@
+import type { MaterialType } from '../types';
+import type { StudyItem } from './repairLoop';
+
+// Undo/redo for hand edits of generated materials. Each entry stores the whole
+// list of one material as it was before a change; lists are small, so
+// snapshots are simpler and safer than inverse operations
+
+export interface HistoryEntry {
+  type: MaterialType;
+  items: StudyItem[];
+  label: string;
+  key?: string; // edits sharing a key (e.g. typing into one field) merge into one entry
+  at: number;
+}
+
+export interface EditHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+export const HISTORY_LIMIT = 100;
+const MERGE_WINDOW_MS = 1500;
+
+export function recordEdit(history: EditHistory, entry: Omit<HistoryEntry, 'at'>, now: number = Date.now()): EditHistory {
+  const last = history.past[history.past.length - 1];
+  if (entry.key && last?.key === entry.key && last.type === entry.type && now - last.at < MERGE_WINDOW_MS) {
+    // Keep the oldest snapshot so one undo reverts the whole burst of typing
+    return { past: [...history.past.slice(0, -1), { ...last, at: now }], future: [] };
+  }
+  return { past: [...history.past, { ...entry, at: now }].slice(-HISTORY_LIMIT), future: [] };
+}
+
+// Moves the newest entry across and returns the list to restore;
+// `current` is what that material looks like right now
+export function undoEdit(history: EditHistory, current: (type: MaterialType) => StudyItem[]): { history: EditHistory; restore: HistoryEntry } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [...history.future, { ...entry, items: current(entry.type) }] },
+    restore: entry,
+  };
+}
+
+export function redoEdit(history: EditHistory, current: (type: MaterialType) => StudyItem[]): { history: EditHistory; restore: HistoryEntry } | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, { ...entry, items: current(entry.type), key: undefined }], future: history.future.slice(0, -1) },
+    restore: entry,
+  };
+}
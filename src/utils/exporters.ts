@@ -0,0 +1,272 @@
+import type { Flashcard, MCQ, MaterialType, MockTestQuestion } from '../types';
+import { buildAnkiPackage } from './ankiPackage';
+import type { AnkiNote } from './ankiPackage';
+import { QUESTION_TYPE_LABELS, questionType } from './mockTestGrading';
+
+// Exporters for generated materials: Anki packages, CSV, Quizlet TSV, our own
+// JSON schema, a printable worksheet with answer key, and plain text
+
+export type ExportFormat = 'apkg' | 'csv' | 'tsv' | 'json' | 'worksheet' | 'txt';
+
+export interface ExportBundle {
+  subjectName: string;
+  flashcards: Flashcard[];
+  mcqs: MCQ[];
+  mockTest: MockTestQuestion[];
+  sourceNames: Record<string, string>;
+}
+
+export interface ExportFormatInfo {
+  label: string;
+  description: string;
+  scope: 'subject' | 'material';
+  materials: MaterialType[]; // which materials the format supports
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  apkg: { label: 'Anki deck (.apkg)', description: 'All materials as one deck, tagged by type and source', scope: 'subject', materials: ['flashcards', 'mcqs', 'mocktest'] },
+  csv: { label: 'CSV', description: 'Spreadsheet of the current material', scope: 'material', materials: ['flashcards', 'mcqs', 'mocktest'] },
+  tsv: { label: 'Quizlet (TSV)', description: 'Term and definition separated by tabs', scope: 'material', materials: ['flashcards', 'mcqs', 'mocktest'] },
+  json: { label: 'StudyGenius JSON', description: 'Everything in this subject, re-importable', scope: 'subject', materials: ['flashcards', 'mcqs', 'mocktest'] },
+  worksheet: { label: 'Printable worksheet', description: 'Questions plus a separate answer key; print or save as PDF', scope: 'material', materials: ['mcqs', 'mocktest'] },
+  txt: { label: 'Plain text', description: 'The current material as a .txt file', scope: 'material', materials: ['flashcards', 'mcqs', 'mocktest'] },
+};
+
+export const STUDY_EXPORT_FORMAT = 'studygenius';
+export const STUDY_EXPORT_VERSION = 1;
+
+export interface StudyExport {
+  format: typeof STUDY_EXPORT_FORMAT;
+  version: number;
+  subject: string;
+  exportedAt: string;
+  flashcards: Flashcard[];
+  mcqs: MCQ[];
+  mockTest: MockTestQuestion[];
+}
+
+export function exportFileName(subjectName: string, suffix: string, extension: string): string {
+  const base = subjectName.trim().replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_+|_+$/g, '').substring(0, 60) || 'study';
+  return `${base}_${suffix}.${extension}`;
+}
+
+function optionLetter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+function answerWithLetter(question: MCQ): string {
+  const index = question.options.indexOf(question.correctAnswer);
+  return index >= 0 ? `${optionLetter(index)}) ${question.correctAnswer}` : question.correctAnswer;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Escaped text with line breaks kept and $math$ rewritten to the \( \) delimiters Anki's MathJax uses
+function toAnkiHtml(text: string): string {
+  return escapeHtml(text)
+    .replace(/\$\$([\s\S]+?)\$\$/g, '\\[$1\\]')
+    .replace(/\$([^$\n]+?)\$/g, '\\($1\\)')
+    .replace(/\n/g, '<br>');
+}
+
+function optionsHtml(options: string[]): string {
+  return `<ol class="options" type="A">${options.map(option => `<li>${toAnkiHtml(option)}</li>`).join('')}</ol>`;
+}
+
+export function buildAnkiNotes(bundle: ExportBundle): AnkiNote[] {
+  const tagsFor = (type: MaterialType, item: { source?: string; topics?: string[] }) => [
+    'studygenius',
+    type,
+    ...(item.source && bundle.sourceNames[item.source] ? [bundle.sourceNames[item.source]] : []),
+    ...(item.topics ?? []),
+  ];
+
+  return [
+    ...bundle.flashcards.map(card => ({
+      front: toAnkiHtml(card.question),
+      back: toAnkiHtml(card.answer),
+      tags: tagsFor('flashcards', card),
+    })),
+    ...bundle.mcqs.map(mcq => ({
+      front: `${toAnkiHtml(mcq.question)}${optionsHtml(mcq.options)}`,
+      back: toAnkiHtml(answerWithLetter(mcq)),
+      tags: tagsFor('mcqs', mcq),
+    })),
+    ...bundle.mockTest.map(question => ({
+      front: `${toAnkiHtml(question.question)}${question.options.length > 0 ? optionsHtml(question.options) : ''}`,
+      back: `${toAnkiHtml(question.options.length > 0 ? answerWithLetter(question) : question.correctAnswer)}${
+        question.explanation ? `<div class="explanation">${toAnkiHtml(question.explanation)}</div>` : ''
+      }`,
+      tags: [...tagsFor('mocktest', question), questionType(question)],
+    })),
+  ];
+}
+
+export function exportAnki(bundle: ExportBundle): Promise<Blob> {
+  return buildAnkiPackage(bundle.subjectName, buildAnkiNotes(bundle));
+}
+
+function materialRows(type: MaterialType, bundle: ExportBundle): string[][] {
+  const source = (id?: string) => (id ? bundle.sourceNames[id] ?? '' : '');
+
+  if (type === 'flashcards') {
+    return [
+      ['Question', 'Answer', 'Source'],
+      ...bundle.flashcards.map(card => [card.question, card.answer, source(card.source)]),
+    ];
+  }
+
+  if (type === 'mcqs') {
+    const width = Math.max(0, ...bundle.mcqs.map(mcq => mcq.options.length));
+    return [
+      ['Question', ...Array.from({ length: width }, (_, i) => `Option ${optionLetter(i)}`), 'Correct answer', 'Source'],
+      ...bundle.mcqs.map(mcq => [
+        mcq.question,
+        ...Array.from({ length: width }, (_, i) => mcq.options[i] ?? ''),
+        mcq.correctAnswer,
+        source(mcq.source),
+      ]),
+    ];
+  }
+
+  return [
+    ['Type', 'Question', 'Options', 'Correct answer', 'Explanation', 'Source'],
+    ...bundle.mockTest.map(question => [
+      QUESTION_TYPE_LABELS[questionType(question)],
+      question.question,
+      question.options.join(' | '),
+      question.correctAnswer,
+      question.explanation,
+      source(question.source),
+    ]),
+  ];
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function exportCsv(type: MaterialType, bundle: ExportBundle): Blob {
+  const csv = materialRows(type, bundle).map(row => row.map(csvField).join(',')).join('\r\n');
+  // The byte-order mark makes Excel read the file as UTF-8
+  return new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' });
+}
+
+// Quizlet's importer takes one "term<TAB>definition" per line, so fields are flattened
+export function exportQuizletTsv(type: MaterialType, bundle: ExportBundle): Blob {
+  const flatten = (text: string) => text.replace(/[\t\r\n]+/g, ' ').trim();
+  const withOptions = (question: MCQ) =>
+    question.options.length > 0
+      ? `${question.question} ${question.options.map((option, i) => `${optionLetter(i)}) ${option}`).join(' ')}`
+      : question.question;
+
+  const pairs: [string, string][] =
+    type === 'flashcards'
+      ? bundle.flashcards.map(card => [card.question, card.answer])
+      : type === 'mcqs'
+        ? bundle.mcqs.map(mcq => [withOptions(mcq), answerWithLetter(mcq)])
+        : bundle.mockTest.map(question => [
+            withOptions(question),
+            question.options.length > 0 ? answerWithLetter(question) : question.correctAnswer,
+          ]);
+
+  const tsv = pairs.map(([term, definition]) => `${flatten(term)}\t${flatten(definition)}`).join('\n');
+  return new Blob([tsv], { type: 'text/tab-separated-values;charset=utf-8' });
+}
+
+export function exportJson(bundle: ExportBundle): Blob {
+  const data: StudyExport = {
+    format: STUDY_EXPORT_FORMAT,
+    version: STUDY_EXPORT_VERSION,
+    subject: bundle.subjectName,
+    exportedAt: new Date().toISOString(),
+    flashcards: bundle.flashcards,
+    mcqs: bundle.mcqs,
+    mockTest: bundle.mockTest,
+  };
+  return new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+}
+
+export function exportPlainText(type: MaterialType, bundle: ExportBundle): Blob {
+  let content = '';
+  if (type === 'flashcards') {
+    bundle.flashcards.forEach((card, index) => {
+      content += `Flashcard ${index + 1}: ${card.question}\nAnswer: ${card.answer}\n\n`;
+    });
+  } else {
+    const questions: (MCQ & { explanation?: string })[] = type === 'mcqs' ? bundle.mcqs : bundle.mockTest;
+    questions.forEach((question, index) => {
+      content += `Question ${index + 1}: ${question.question}\n`;
+      question.options.forEach((option, i) => {
+        content += `${optionLetter(i)}. ${option}\n`;
+      });
+      content += `Correct answer: ${question.correctAnswer}\n`;
+      if (question.explanation) content += `Explanation: ${question.explanation}\n`;
+      content += '\n';
+    });
+  }
+  return new Blob([content], { type: 'text/plain;charset=utf-8' });
+}
+
+const WORKSHEET_CSS = `
+body { font-family: Georgia, serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #111; line-height: 1.5; }
+h1 { font-size: 1.6rem; margin-bottom: 0.25rem; }
+.meta { display: flex; gap: 2rem; margin-bottom: 2rem; color: #444; }
+.meta span { border-bottom: 1px solid #999; min-width: 12rem; display: inline-block; }
+ol.questions > li { margin-bottom: 1.25rem; break-inside: avoid; }
+ol.options { list-style-type: upper-alpha; margin: 0.4rem 0 0; }
+.blank { border-bottom: 1px solid #999; height: 1.8rem; }
+.answer-key { break-before: page; page-break-before: always; }
+.answer-key li { margin-bottom: 0.6rem; }
+.explanation { color: #444; font-size: 0.92em; }
+.toolbar { text-align: right; }
+@media print { .toolbar { display: none; } body { margin: 0 auto; } }
+`;
+
+export function buildWorksheetHtml(type: Extract<MaterialType, 'mcqs' | 'mocktest'>, bundle: ExportBundle): string {
+  const questions: (MCQ & { explanation?: string })[] = type === 'mcqs' ? bundle.mcqs : bundle.mockTest;
+  const title = `${bundle.subjectName} — ${type === 'mcqs' ? 'Multiple Choice Quiz' : 'Mock Test'}`;
+  const text = (value: string) => escapeHtml(value).replace(/\n/g, '<br>');
+
+  const questionItems = questions.map(question => {
+    const body = question.options.length > 0
+      ? `<ol class="options">${question.options.map(option => `<li>${text(option)}</li>`).join('')}</ol>`
+      : '<div class="blank"></div><div class="blank"></div>';
+    return `<li>${text(question.question)}${body}</li>`;
+  }).join('\n');
+
+  const answerItems = questions.map(question => {
+    const answer = question.options.length > 0 ? answerWithLetter(question) : question.correctAnswer;
+    const explanation = question.explanation ? `<div class="explanation">${text(question.explanation)}</div>` : '';
+    return `<li><strong>${text(answer)}</strong>${explanation}</li>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${WORKSHEET_CSS}</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">Print / Save as PDF</button></div>
+<h1>${escapeHtml(title)}</h1>
+<div class="meta"><div>Name: <span></span></div><div>Date: <span></span></div><div>Score: <span style="min-width:4rem"></span> / ${questions.length}</div></div>
+<ol class="questions">
+${questionItems}
+</ol>
+<section class="answer-key">
+<h1>Answer Key</h1>
+<ol>
+${answerItems}
+</ol>
+</section>
+</body>
+</html>`;
+}
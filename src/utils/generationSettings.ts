@@ -0,0 +1,35 @@
+// Generation behaviour settings persisted in localStorage
+
+export interface GenerationSettings {
+  // Total agent calls per generation, including repair re-prompts
+  maxAttempts: number;
+  // Substitute placeholder material when generation fails
+  demoMode: boolean;
+  // Notes longer than this are split and generated per chunk
+  chunkTokens: number;
+  // Chunk requests in flight at once
+  concurrency: number;
+}
+
+const STORAGE_KEY = 'studygenius.generationSettings';
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  maxAttempts: 3,
+  demoMode: false,
+  chunkTokens: 3000,
+  concurrency: 3,
+};
+
+export function loadGenerationSettings(): GenerationSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_GENERATION_SETTINGS;
+    return { ...DEFAULT_GENERATION_SETTINGS, ...JSON.parse(stored) };
+  } catch {
+    return DEFAULT_GENERATION_SETTINGS;
+  }
+}
+
+export function saveGenerationSettings(settings: GenerationSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
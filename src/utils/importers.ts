@@ -0,0 +1,474 @@
+import type { Flashcard, MaterialType, ReviewState } from '../types';
+import { readAnkiPackage } from './ankiPackage';
+import { STUDY_EXPORT_FORMAT } from './exporters';
+import type { StudyItem } from './repairLoop';
+import { findNearDuplicate } from './similarity';
+import { validateStudyItems } from './studySchema';
+import type { ValidationResult } from './studySchema';
+
+// Importers for existing decks and question banks: Anki packages, CSV/TSV,
+// StudyGenius JSON and "Q:/A:" text. Tables go through a column mapping,
+// everything ends up in the same schema validation as generated items
+
+export const ACCEPTED_IMPORT_FILES = '.apkg,.csv,.tsv,.json,.txt,.md';
+
+export type ImportFormat = 'apkg' | 'csv' | 'tsv' | 'json' | 'text';
+
+export type ColumnRole = 'question' | 'answer' | 'options' | 'explanation' | 'type' | 'ignore';
+
+interface ImportBase {
+  fileName: string;
+  format: ImportFormat;
+  warnings: string[];
+}
+
+// Rows of cells whose meaning the student confirms in the mapping preview
+export interface TableImport extends ImportBase {
+  kind: 'table';
+  rows: string[][]; // padded to the same width
+  hasHeader: boolean;
+}
+
+// Already-shaped items per material: an array, or anything schema validation can unwrap
+export interface RecordImport extends ImportBase {
+  kind: 'records';
+  records: Partial<Record<MaterialType, unknown>>;
+}
+
+export type ImportedFile = TableImport | RecordImport;
+
+export type ConflictStrategy = 'skip' | 'replace' | 'keep';
+
+export const CONFLICT_STRATEGIES: Record<ConflictStrategy, string> = {
+  skip: 'Keep my existing version',
+  replace: 'Replace with the imported version',
+  keep: 'Keep both',
+};
+
+const ROLE_HEADERS: [ColumnRole, RegExp][] = [
+  ['question', /^(question|front|term|prompt|q)$/],
+  ['answer', /^(answer|back|definition|correct ?answer|correct|a)$/],
+  ['options', /^(option|choice)s?( ?[a-h1-8])?$/],
+  ['explanation', /^(explanation|rationale|reason|extra)$/],
+  ['type', /^(type|question ?type)$/],
+];
+
+export function detectImportFormat(file: File): ImportFormat | null {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.apkg')) return 'apkg';
+  if (name.endsWith('.csv')) return 'csv';
+  if (name.endsWith('.tsv')) return 'tsv';
+  if (name.endsWith('.json') || file.type === 'application/json') return 'json';
+  if (name.endsWith('.txt') || name.endsWith('.md') || file.type.startsWith('text/')) return 'text';
+  return null;
+}
+
+function headerRole(header: string): ColumnRole | null {
+  const name = header.trim().toLowerCase().replace(/[_-]+/g, ' ');
+  return ROLE_HEADERS.find(([, pattern]) => pattern.test(name))?.[0] ?? null;
+}
+
+export function tableColumns(table: TableImport): string[] {
+  return (table.rows[0] ?? []).map((header, i) => (table.hasHeader && header ? header : `Column ${i + 1}`));
+}
+
+// Best guess from header names, falling back to question/answer for the first two columns
+export function guessColumnRoles(table: TableImport): ColumnRole[] {
+  const byHeader = (table.rows[0] ?? []).map(header => (table.hasHeader ? headerRole(header) : null));
+  if (byHeader.includes('question')) return byHeader.map(role => role ?? 'ignore');
+  return byHeader.map((role, index) => (index === 0 ? 'question' : index === 1 ? 'answer' : role ?? 'ignore'));
+}
+
+// RFC 4180 CSV: quoted fields may hold delimiters, doubled quotes and line breaks
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim()));
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split('\n', 1)[0];
+  const counts = ['\t', ';', ','].map(delimiter => [delimiter, firstLine.split(delimiter).length] as const);
+  return counts.reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+}
+
+function toTable(fileName: string, format: ImportFormat, rows: string[][]): TableImport {
+  const width = Math.max(0, ...rows.map(row => row.length));
+  const padded = rows.map(row => Array.from({ length: width }, (_, i) => row[i]?.trim() ?? ''));
+  const hasHeader = padded.length > 1 && padded[0].some(cell => headerRole(cell) !== null);
+  return { kind: 'table', fileName, format, rows: padded, hasHeader, warnings: [] };
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: ' ' };
+
+// Anki fields are inline HTML; keep line breaks and list items, and turn MathJax delimiters back into $…$
+export function ankiFieldToText(html: string): string {
+  return html
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<(div|p|ol|ul|h[1-6])\b[^>]*>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] !== '#') return ENTITIES[code.toLowerCase()] ?? entity;
+      return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : Number(code.slice(1)));
+    })
+    .replace(/\\\[([\s\S]+?)\\\]/g, '$$$$$1$$$$')
+    .replace(/\\\(([\s\S]+?)\\\)/g, '$$$1$$')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+async function importAnki(file: File): Promise<TableImport> {
+  const deck = await readAnkiPackage(file);
+  if (deck.notes.length === 0) throw new Error(`"${file.name}" has no notes.`);
+
+  const width = Math.max(deck.fieldNames.length, ...deck.notes.map(note => note.fields.length));
+  const columns = [...Array.from({ length: width }, (_, i) => deck.fieldNames[i] ?? `Field ${i + 1}`), 'Tags'];
+  const rows = deck.notes.map(note => [
+    ...Array.from({ length: width }, (_, i) => ankiFieldToText(note.fields[i] ?? '')),
+    note.tags.join(' '),
+  ]);
+
+  const warnings: string[] = [];
+  const withMedia = deck.notes.filter(note => note.fields.some(field => /<img\b|\[sound:/i.test(field))).length;
+  if (withMedia > 0) warnings.push(`${withMedia} note${withMedia === 1 ? '' : 's'} reference images or audio, which are not imported.`);
+  const clozes = deck.notes.filter(note => note.fields.some(field => /\{\{c\d+::/.test(field))).length;
+  if (clozes > 0) warnings.push(`${clozes} cloze note${clozes === 1 ? '' : 's'} will be imported with their {{c1::…}} markup.`);
+
+  // Anki has no header row, but its field names play that part
+  return { kind: 'table', fileName: file.name, format: 'apkg', rows: [columns, ...rows], hasHeader: true, warnings };
+}
+
+function importJson(fileName: string, text: string): ImportedFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`"${fileName}" is not valid JSON.`);
+  }
+
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    const record = data as Record<string, unknown>;
+    if (record.format === STUDY_EXPORT_FORMAT) {
+      return {
+        kind: 'records',
+        fileName,
+        format: 'json',
+        records: { flashcards: record.flashcards ?? [], mcqs: record.mcqs ?? [], mocktest: record.mockTest ?? [] },
+        warnings: [],
+      };
+    }
+  }
+
+  // Any other JSON: a list of items (or an object wrapping one) that may fit any material
+  return { kind: 'records', fileName, format: 'json', records: { flashcards: data, mcqs: data, mocktest: data }, warnings: [] };
+}
+
+export interface QuestionBlock {
+  question: string;
+  answer?: string;
+  options: string[];
+  explanation?: string;
+  number?: number; // as numbered in the text, for matching an answer key
+  type?: string;
+}
+
+const QUESTION_LINE = /^(?:Q|Question)\s*(\d*)\s*(?:[:.)-]\s*|$)/i;
+const NUMBERED_LINE = /^(\d{1,3})\s*[.)]\s+/;
+const ANSWER_LINE = /^(?:A\s*:|(?:Answer|Ans|Correct answer|Correct option)\s*[:-])\s*/i;
+const OPTION_LINE = /^\(?([A-Ha-h])[).]\s+/;
+const EXPLANATION_LINE = /^(?:Explanation|Rationale|Why)\s*[:-]\s*/i;
+const ANSWER_KEY_LINE = /^(?:Answer key|Answers)\s*[:-]?\s*/i;
+const KEY_ENTRY = /(\d{1,3})\s*[.):-]?\s*\(?([A-Ha-h])\)?(?=[\s,;.)]|$)/g;
+const CORRECT_MARK = /\s*(?:✓|✔|✅|\((?:correct)\)|\[(?:correct)\])\s*$/i;
+
+// "A) x B) y C) z" on one line, as a list of labelled parts
+function splitInlineOptions(text: string): string[] {
+  return text.split(/\s+(?=\(?[B-Hb-h][).]\s)/);
+}
+
+function addOption(block: QuestionBlock, option: string) {
+  const text = option.replace(OPTION_LINE, '').replace(CORRECT_MARK, '').trim();
+  block.options.push(text);
+  if (CORRECT_MARK.test(option)) block.answer ??= text;
+}
+
+function newBlock(question: string, number?: number): QuestionBlock {
+  const block: QuestionBlock = { question, options: [], number };
+  // Options written on the question line itself
+  const parts = splitInlineOptions(question);
+  const first = parts[0].search(/\s\(?[Aa][).]\s/);
+  if (parts.length > 2 && first > 0) {
+    block.question = parts[0].slice(0, first).trim();
+    [parts[0].slice(first).trim(), ...parts.slice(1)].forEach(option => addOption(block, option));
+  }
+  return block;
+}
+
+// "Q: … / A: …" blocks and numbered quiz layouts ("1. …" followed by "A) …",
+// "a.", "(A)" options). An "Answer:"/"Correct answer:" line or a ✓ on an option
+// gives the answer, and a trailing "Answer key: 1-B, 2-C" fills in the rest.
+// Unlabelled lines continue the previous field until a blank line closes it
+export function parseQuestionBlocks(text: string): QuestionBlock[] {
+  const blocks: QuestionBlock[] = [];
+  const answerKey = new Map<number, string>();
+  let current: QuestionBlock | null = null;
+  let field: 'question' | 'answer' | 'explanation' | null = null;
+  let inAnswerKey = false;
+  let answered = false; // options end at the answer or explanation
+  let inList = false;
+
+  for (const line of text.split('\n')) {
+    // "**Question:** …" is as common from the agent as the plain label, as are headings and bullets
+    const clean = line.trim().replace(/^#{1,6}\s+/, '').replace(/^(\*\*|__)(.+?)\1/, '$2').trim();
+    const labelled = clean.match(QUESTION_LINE);
+    const numbered = clean.match(NUMBERED_LINE);
+    // Once a numbered list has started inside an answer or explanation, its items are not questions
+    const nextNumber = numbered && !(inList && field !== null)
+      && (!current || (current.number !== undefined ? Number(numbered[1]) === current.number + 1 : field === null));
+
+    if (!clean) {
+      field = null;
+      inList = false;
+    } else if (inAnswerKey || (ANSWER_KEY_LINE.test(clean) && !ANSWER_LINE.test(clean))) {
+      inAnswerKey = true;
+      for (const [, number, letter] of clean.matchAll(KEY_ENTRY)) answerKey.set(Number(number), letter.toUpperCase());
+    } else if (labelled || nextNumber) {
+      if (current) blocks.push(current);
+      current = labelled
+        ? newBlock(clean.replace(QUESTION_LINE, ''), labelled[1] ? Number(labelled[1]) : undefined)
+        // "1. Question: …" and "1. **Question:** …" keep their label after the number
+        : newBlock(clean.replace(NUMBERED_LINE, '').replace(/^(\*\*|__)(.+?)\1/, '$2').replace(QUESTION_LINE, ''), Number(numbered?.[1]));
+      field = current.options.length > 0 ? null : 'question';
+      answered = false;
+    } else if (!current) {
+      continue;
+    } else if (ANSWER_LINE.test(clean)) {
+      current.answer = clean.replace(ANSWER_LINE, '').replace(/^(\*\*|__)(.+?)\1/, '$2');
+      field = 'answer';
+      answered = true;
+    } else if (EXPLANATION_LINE.test(clean)) {
+      current.explanation = clean.replace(EXPLANATION_LINE, '');
+      field = 'explanation';
+      answered = true;
+    } else if (OPTION_LINE.test(clean.replace(/^[-*•]\s+/, '')) && !answered) {
+      const block = current;
+      splitInlineOptions(clean.replace(/^[-*•]\s+/, '')).forEach(option => addOption(block, option));
+      field = null;
+    } else if (field) {
+      current[field] = `${current[field] ?? ''}\n${clean}`.trim();
+      inList = inList || Boolean(numbered);
+    }
+  }
+  if (current) blocks.push(current);
+
+  for (const block of blocks) {
+    if (block.answer === undefined && block.number !== undefined) block.answer = answerKey.get(block.number);
+  }
+  return blocks.filter(block => block.question.trim());
+}
+
+function tableCells(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+// Markdown tables with a question column, and either one options column
+// ("A) x<br>B) y" or "x; y") or a column per option letter
+export function parseQuestionTables(text: string): QuestionBlock[] {
+  const blocks: QuestionBlock[] = [];
+  const lines = text.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].trim().startsWith('|')) continue;
+    let end = i;
+    while (end < lines.length && lines[end].trim().startsWith('|')) end++;
+    const rows = lines.slice(i, end).map(tableCells).filter(cells => !cells.every(cell => /^:?-*:?$/.test(cell)));
+    i = end;
+
+    const headers = rows[0] ?? [];
+    const letterColumns = headers.flatMap((header, index) => (/^(?:option\s*|choice\s*)?[a-h]$/i.test(header) ? [index] : []));
+    const roles = headers.map((header, index) => (letterColumns.length >= 2 && letterColumns.includes(index) ? 'options' : headerRole(header)));
+    const column = (role: ColumnRole) => roles.indexOf(role);
+    if (column('question') === -1) continue;
+
+    for (const row of rows.slice(1)) {
+      const cell = (role: ColumnRole) => (column(role) >= 0 ? row[column(role)] || undefined : undefined);
+      const options = letterColumns.length >= 2
+        ? letterColumns.map(index => row[index] ?? '')
+        : (cell('options') ?? '').split(/\s*<br\s*\/?>\s*|\s*;\s*/);
+      const question = cell('question');
+      if (!question) continue;
+      blocks.push({
+        question,
+        answer: cell('answer'),
+        options: options.map(option => option.replace(OPTION_LINE, '').trim()).filter(Boolean),
+        explanation: cell('explanation'),
+        type: cell('type'),
+      });
+    }
+  }
+  return blocks;
+}
+
+// Everything above from one piece of text: tables first, then the text around them
+export function parseQuizText(text: string): QuestionBlock[] {
+  const prose = text.split('\n').filter(line => !line.trim().startsWith('|')).join('\n');
+  return [...parseQuestionTables(text), ...parseQuestionBlocks(prose)];
+}
+
+function importText(fileName: string, text: string): RecordImport {
+  const blocks = parseQuizText(text);
+  if (blocks.length === 0) {
+    throw new Error(`No "Q: … / A: …" pairs found in "${fileName}".`);
+  }
+  return { kind: 'records', fileName, format: 'text', records: { flashcards: blocks, mcqs: blocks, mocktest: blocks }, warnings: [] };
+}
+
+export async function readImportFile(file: File): Promise<ImportedFile> {
+  const format = detectImportFormat(file);
+  switch (format) {
+    case 'apkg':
+      return importAnki(file);
+    case 'csv':
+    case 'tsv': {
+      const text = (await file.text()).replace(/^\uFEFF/, '');
+      const rows = parseDelimited(text, format === 'tsv' ? '\t' : detectDelimiter(text));
+      if (rows.length === 0) throw new Error(`"${file.name}" is empty.`);
+      return toTable(file.name, format, rows);
+    }
+    case 'json':
+      return importJson(file.name, await file.text());
+    case 'text':
+      return importText(file.name, await file.text());
+    default:
+      throw new Error(`Unsupported file type: "${file.name}". Import .apkg, CSV, TSV, JSON or Q:/A: text.`);
+  }
+}
+
+// Turns mapped table rows into raw items for schema validation
+function tableRecords(table: TableImport, roles: ColumnRole[]): Record<string, unknown>[] {
+  const rows = table.hasHeader ? table.rows.slice(1) : table.rows;
+  const optionColumns = roles.flatMap((role, index) => (role === 'options' ? [index] : []));
+  const cell = (row: string[], role: ColumnRole) => {
+    const index = roles.indexOf(role);
+    return index >= 0 ? row[index] : undefined;
+  };
+
+  return rows.map(row => {
+    // A single options column holds "a | b | c", as in our own CSV export
+    const options = optionColumns.length === 1
+      ? row[optionColumns[0]].split(/\s*\|\s*/)
+      : optionColumns.map(index => row[index]);
+    return {
+      question: cell(row, 'question'),
+      answer: cell(row, 'answer'),
+      options: options.filter(Boolean),
+      explanation: cell(row, 'explanation'),
+      type: cell(row, 'type'),
+    };
+  });
+}
+
+// Spaced-repetition progress survives a round trip through our own JSON export
+function keepReviewState(items: Flashcard[], raws: unknown[]): Flashcard[] {
+  const reviews = new Map<string, ReviewState>();
+  raws.forEach(raw => {
+    const card = raw as Partial<Flashcard> | null;
+    if (typeof card?.question === 'string' && typeof card.review?.due === 'number') {
+      reviews.set(card.question.trim().toLowerCase(), card.review);
+    }
+  });
+  return items.map(card => {
+    const review = reviews.get(card.question.toLowerCase());
+    return review ? { ...card, review } : card;
+  });
+}
+
+export function importedItems(file: ImportedFile, type: MaterialType, roles: ColumnRole[] = []): ValidationResult<StudyItem> {
+  const data = file.kind === 'table' ? tableRecords(file, roles) : file.records[type] ?? [];
+  const result = validateStudyItems(type, data);
+
+  if (type === 'flashcards' && file.kind === 'records' && Array.isArray(data)) {
+    return { ...result, items: keepReviewState(result.items as Flashcard[], data) };
+  }
+  return result;
+}
+
+export interface ImportConflict<T> {
+  imported: T;
+  existing: T;
+}
+
+export function findImportConflicts<T extends { question: string }>(imported: T[], existing: T[]): ImportConflict<T>[] {
+  return imported.flatMap(item => {
+    const match = findNearDuplicate(item, existing);
+    return match ? [{ imported: item, existing: match }] : [];
+  });
+}
+
+export interface MergeResult<T> {
+  items: T[];
+  added: number;
+  replaced: number;
+  skipped: number;
+}
+
+// Near-duplicates of existing items are skipped, replaced in place or added alongside
+export function mergeImported<T extends { question: string }>(existing: T[], imported: T[], strategy: ConflictStrategy): MergeResult<T> {
+  const items = [...existing];
+  let added = 0;
+  let replaced = 0;
+  let skipped = 0;
+
+  for (const item of imported) {
+    const match = strategy === 'keep' ? undefined : findNearDuplicate(item, existing);
+    const index = match ? items.indexOf(match) : -1;
+    if (!match) {
+      items.push(item);
+      added++;
+    } else if (strategy === 'replace' && index >= 0) {
+      items[index] = item;
+      replaced++;
+    } else {
+      skipped++;
+    }
+  }
+
+  return { items, added, replaced, skipped };
+}
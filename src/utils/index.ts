@@ -14,4 +14,41 @@ export function formatDate(date: Date): string {
 
 export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms))
-}
\ No newline at end of file
+}
+
+// Runs async tasks with at most `limit` in flight, preserving result order
+export async function runWithConcurrency<T>(
+  tasks: (() => Promise<T>)[],
+  limit: number,
+  onSettled?: (completed: number, total: number) => void
+): Promise<PromiseSettledResult<T>[]> {
+  const results: PromiseSettledResult<T>[] = new Array(tasks.length)
+  let next = 0
+  let completed = 0
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++
+      try {
+        results[index] = { status: 'fulfilled', value: await tasks[index]() }
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason }
+      }
+      completed++
+      onSettled?.(completed, tasks.length)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), tasks.length) }, worker))
+  return results
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -0,0 +1,67 @@
+import type { MCQ, MaterialType, MockQuestionType, MockTestQuestion } from '../types';
+import type { StudyItem } from './repairLoop';
+import { validateStudyItems } from './studySchema';
+
+// Pure helpers behind the material editor: blank items, reordering, option
+// edits that keep the correct answer in sync, and validation of hand edits
+
+export function blankItem(type: MaterialType): StudyItem {
+  switch (type) {
+    case 'flashcards':
+      return { question: '', answer: '' };
+    case 'mcqs':
+      return { question: '', options: ['', '', '', ''], correctAnswer: '' };
+    case 'mocktest':
+      return { question: '', type: 'mcq', options: ['', '', '', ''], correctAnswer: '', explanation: '' };
+  }
+}
+
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= items.length || from === to) return items;
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+}
+
+// Renaming the correct option renames the correct answer with it
+export function setOption<T extends MCQ>(item: T, index: number, text: string): T {
+  const wasCorrect = item.options[index] === item.correctAnswer && item.correctAnswer !== '';
+  return {
+    ...item,
+    options: item.options.map((option, i) => (i === index ? text : option)),
+    correctAnswer: wasCorrect ? text : item.correctAnswer,
+  };
+}
+
+export function addOption<T extends MCQ>(item: T): T {
+  return { ...item, options: [...item.options, ''] };
+}
+
+export function removeOption<T extends MCQ>(item: T, index: number): T {
+  const removed = item.options[index];
+  return {
+    ...item,
+    options: item.options.filter((_, i) => i !== index),
+    correctAnswer: removed === item.correctAnswer ? '' : item.correctAnswer,
+  };
+}
+
+export function setMockQuestionType(item: MockTestQuestion, type: MockQuestionType): MockTestQuestion {
+  if (type === 'truefalse') {
+    return { ...item, type, options: ['True', 'False'], correctAnswer: /^false$/i.test(item.correctAnswer) ? 'False' : 'True' };
+  }
+  if (type === 'short') {
+    return { ...item, type, options: [] };
+  }
+  const options = item.options.length >= 2 && item.type !== 'truefalse' ? item.options : ['', '', '', ''];
+  return { ...item, type, options, correctAnswer: options.includes(item.correctAnswer) ? item.correctAnswer : '' };
+}
+
+// Same rules as generated items, so an edit can't produce something the study views can't show
+export function itemProblem(type: MaterialType, item: StudyItem): string | null {
+  const options = 'options' in item ? item.options : [];
+  if (options.some(option => !option.trim())) return 'Fill in or remove empty options';
+  if ('correctAnswer' in item && options.length > 0 && !item.correctAnswer) return 'Pick the correct answer';
+  return validateStudyItems(type, [item]).rejected[0]?.reason ?? null;
+}
@@ -0,0 +1,116 @@
+import type { MCQ, MockTestQuestion } from '../types';
+import { isLetterReference, isMetaOption } from './optionShuffle';
+import { DUPLICATE_THRESHOLD, questionSimilarity, questionTokens } from './similarity';
+
+// Heuristic checks on multiple-choice options. These flag items for a second
+// look or a regenerate; they never reject an item on their own
+
+export type QualityIssueKind = 'duplicate-options' | 'meta-option' | 'answer-in-stem' | 'length-outlier';
+
+export interface QualityIssue {
+  kind: QualityIssueKind;
+  message: string;
+}
+
+export const QUALITY_ISSUE_LABELS: Record<QualityIssueKind, string> = {
+  'duplicate-options': 'duplicate options',
+  'meta-option': '"all of the above" misuse',
+  'answer-in-stem': 'answer given away by the question',
+  'length-outlier': 'implausibly short or long options',
+};
+
+// Length ratios that make an option stand out, ignored for small absolute differences
+const LENGTH_RATIO = 2.5;
+const ANSWER_LENGTH_RATIO = 1.8;
+const MIN_LENGTH_GAP = 15;
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function duplicateIssues(options: string[]): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+  options.forEach((option, i) => {
+    const twin = options.slice(0, i).find(other => normalize(other) === normalize(option)
+      || (questionTokens(other).size >= 3 && questionSimilarity(other, option) >= DUPLICATE_THRESHOLD));
+    if (twin !== undefined) issues.push({ kind: 'duplicate-options', message: `"${option}" repeats "${twin}"` });
+  });
+  return issues;
+}
+
+function metaOptionIssues(options: string[]): QualityIssue[] {
+  const meta = options.filter(option => isMetaOption(option, options));
+  const issues: QualityIssue[] = [];
+  if (meta.length > 1) {
+    issues.push({ kind: 'meta-option', message: `Several options refer to the others: ${meta.map(option => `"${option}"`).join(', ')}` });
+  }
+  for (const option of meta) {
+    if (isLetterReference(option, options)) {
+      issues.push({ kind: 'meta-option', message: `"${option}" names options by letter, which shuffling changes` });
+    } else if (options.length - meta.length < 3) {
+      issues.push({ kind: 'meta-option', message: `"${option}" needs at least three other options to be meaningful` });
+    }
+  }
+  return issues;
+}
+
+// The correct option, or all of its content words, appear in the question while no distractor's do
+function answerInStemIssues(question: string, options: string[], correctAnswer: string): QualityIssue[] {
+  if (isMetaOption(correctAnswer, options)) return [];
+  const stem = ` ${normalize(question)} `;
+  const stemTokens = questionTokens(question);
+  const leaks = (option: string) => {
+    const text = normalize(option);
+    const tokens = [...questionTokens(option)];
+    return (text.length >= 4 && stem.includes(` ${text} `)) || (tokens.length >= 2 && tokens.every(token => stemTokens.has(token)));
+  };
+  const distractorsLeak = options.some(option => option !== correctAnswer && leaks(option));
+  return leaks(correctAnswer) && !distractorsLeak
+    ? [{ kind: 'answer-in-stem', message: `The correct answer "${correctAnswer}" appears in the question` }]
+    : [];
+}
+
+function lengthIssues(options: string[], correctAnswer: string): QualityIssue[] {
+  const candidates = options.filter(option => !isMetaOption(option, options));
+  if (candidates.length < 3) return [];
+  const issues: QualityIssue[] = [];
+
+  const distractors = candidates.filter(option => option !== correctAnswer).map(option => option.length);
+  if (candidates.includes(correctAnswer)) {
+    const typical = median(distractors);
+    if (correctAnswer.length >= typical * ANSWER_LENGTH_RATIO && correctAnswer.length - typical >= MIN_LENGTH_GAP && correctAnswer.length > Math.max(...distractors)) {
+      issues.push({ kind: 'length-outlier', message: 'The correct answer is much longer than the distractors' });
+    }
+  }
+
+  for (const option of candidates) {
+    if (option === correctAnswer) continue;
+    const typical = median(candidates.filter(other => other !== option).map(other => other.length));
+    if (Math.abs(option.length - typical) < MIN_LENGTH_GAP) continue;
+    if (option.length * LENGTH_RATIO <= typical) {
+      issues.push({ kind: 'length-outlier', message: `Distractor "${option}" is much shorter than the other options` });
+    } else if (option.length >= typical * LENGTH_RATIO) {
+      issues.push({ kind: 'length-outlier', message: `Distractor "${option}" is much longer than the other options` });
+    }
+  }
+  return issues;
+}
+
+// Short-answer and true/false questions have no distractors to check
+export function checkOptionQuality(item: MCQ | MockTestQuestion): QualityIssue[] {
+  if (item.options.length < 3) return [];
+  const options = item.options.map(option => option.trim());
+  const correctAnswer = item.correctAnswer.trim();
+  return [
+    ...duplicateIssues(options),
+    ...metaOptionIssues(options),
+    ...answerInStemIssues(item.question, options, correctAnswer),
+    ...lengthIssues(options, correctAnswer),
+  ];
+}
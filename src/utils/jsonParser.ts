@@ -1,338 +1,264 @@
-function parseLLMJson(response, options = {}) {
-    const {
-        attemptFix = true,
-        maxBlocks = 5,
-        preferFirst = true,  // Prefer first valid JSON found
-        allowPartial = false // Allow partial/truncated JSON
-    } = options;
-
-    // Validate input
-    if (!response || typeof response !== 'string') {
-        return {
-            success: false,
-            error: 'Invalid input: response must be a non-empty string',
-            data: null,
-            rawJson: null
-        };
-    }
+import { parseLenientJson } from './lenientJson';
+import type { LenientRepair } from './lenientJson';
+
+// Pulls a JSON value out of free-form agent output. Candidates are tried in
+// order of how deliberately they were marked as JSON, each first as-is and then
+// with repairs, and the result says which candidate won and what was changed
+
+export type ExtractionStrategy =
+  | 'json-fence' // ```json ... ```
+  | 'fence' // any other ``` block that starts with { or [
+  | 'inline' // `...` inline code
+  | 'boundary-scan' // a balanced {...} or [...] found in the text
+  | 'whole'; // the entire response
+
+export type JsonRepair = LenientRepair | 'trim-to-boundary' | 'unwrap-response';
+
+// Offsets into the original response, end exclusive
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
 
-    // Cache for performance
-    const jsonCache = new Map();
-
-    // Enhanced JSON fixing function
-    const fixCommonJsonIssues = (jsonStr) => {
-        // Check cache first
-        if (jsonCache.has(jsonStr)) {
-            return jsonCache.get(jsonStr);
-        }
-
-        let fixed = jsonStr;
-
-        // Remove BOM if present
-        fixed = fixed.replace(/^\uFEFF/, '');
-
-        // Remove all types of comments more aggressively
-        fixed = fixed.replace(/\/\/.*$/gm, '');
-        fixed = fixed.replace(/\/\*[\s\S]*?\*\//g, '');
-        fixed = fixed.replace(/^\s*#.*$/gm, ''); // Python-style comments
-
-        // Handle escaped characters that might break parsing
-        fixed = fixed.replace(/\\'/g, "'");
-        fixed = fixed.replace(/\\"/g, '"');
-
-        // Fix truncated strings (common in LLM outputs)
-        if (allowPartial) {
-            // Close unclosed strings
-            const quoteCount = (fixed.match(/"/g) || []).length;
-            if (quoteCount % 2 !== 0) {
-                fixed += '"';
-            }
-        }
-
-        // Remove trailing commas more comprehensively
-        fixed = fixed.replace(/,(\s*[}\]])/g, '$1');
-        fixed = fixed.replace(/,\s*$/g, '');
-
-        // Fix unquoted keys (including those with hyphens and dots)
-        fixed = fixed.replace(/([{,]\s*)([a-zA-Z_$][\w\-\.]*)\s*:/g, '$1"$2":');
-
-        // Convert single quotes to double quotes more carefully
-        // Handle nested quotes
-        fixed = fixed.replace(/'([^'\\]*(\\.[^'\\]*)*)'/g, '"$1"');
-
-        // Fix boolean and null values that might be incorrectly formatted
-        fixed = fixed.replace(/:\s*True\b/gi, ': true');
-        fixed = fixed.replace(/:\s*False\b/gi, ': false');
-        fixed = fixed.replace(/:\s*None\b/gi, ': null');
-        fixed = fixed.replace(/:\s*undefined\b/gi, ': null');
-
-        // Handle Python-style lists/dicts
-        fixed = fixed.replace(/\bTrue\b/g, 'true');
-        fixed = fixed.replace(/\bFalse\b/g, 'false');
-        fixed = fixed.replace(/\bNone\b/g, 'null');
-
-        // Fix improperly escaped quotes inside strings
-        fixed = fixed.replace(/"([^"]*)\\"([^"]*)"/, '"$1\\"$2"');
-
-        // Handle ellipsis in truncated content
-        fixed = fixed.replace(/\.\.\./g, '');
-        fixed = fixed.replace(/…/g, '');
-
-        // Cache the result
-        jsonCache.set(jsonStr, fixed);
-        return fixed;
-    };
+export interface CandidateError {
+  strategy: ExtractionStrategy;
+  span: SourceSpan;
+  repairs: JsonRepair[]; // repairs tried before giving up on this candidate
+  error: string;
+}
 
-    // Enhanced JSON extraction
-    const extractJson = (text) => {
-        const results = [];
-
-        // Priority 1: Look for code blocks with json marker
-        const jsonBlockPattern = /```(?:json|JSON)\s*\n?([\s\S]*?)\n?```/g;
-        let match;
-        while ((match = jsonBlockPattern.exec(text)) !== null) {
-            if (results.length >= maxBlocks) break;
-            const content = match[1]?.trim();
-            if (content) results.push({ content, priority: 1 });
-        }
-
-        // Priority 2: Look for any code blocks
-        const codeBlockPattern = /```\s*\n?([\s\S]*?)\n?```/g;
-        while ((match = codeBlockPattern.exec(text)) !== null) {
-            if (results.length >= maxBlocks) break;
-            const content = match[1]?.trim();
-            if (content && (content.startsWith('{') || content.startsWith('['))) {
-                results.push({ content, priority: 2 });
-            }
-        }
-
-        // Priority 3: Look for inline code blocks
-        const inlinePattern = /`([^`]+)`/g;
-        while ((match = inlinePattern.exec(text)) !== null) {
-            if (results.length >= maxBlocks) break;
-            const content = match[1]?.trim();
-            if (content && (content.startsWith('{') || content.startsWith('['))) {
-                results.push({ content, priority: 3 });
-            }
-        }
-
-        // Priority 4: Extract JSON-like structures directly
-        // Improved regex to handle nested structures better
-        const jsonPatterns = [
-            /(\{(?:[^{}]|(?:\{[^{}]*\}))*\})/g,  // Nested objects
-            /(\[(?:[^\[\]]|(?:\[[^\[\]]*\]))*\])/g, // Nested arrays
-        ];
-
-        for (const pattern of jsonPatterns) {
-            pattern.lastIndex = 0;
-            while ((match = pattern.exec(text)) !== null) {
-                if (results.length >= maxBlocks) break;
-                const content = match[1]?.trim();
-                if (content && content.length > 10) { // Minimum length check
-                    results.push({ content, priority: 4 });
-                }
-            }
-        }
-
-        // Sort by priority if preferFirst is true
-        if (preferFirst) {
-            results.sort((a, b) => a.priority - b.priority);
-        }
-
-        return results.map(r => r.content);
-    };
+export interface ParseSuccess<T = unknown> {
+  success: true;
+  value: T;
+  strategy: ExtractionStrategy;
+  repairs: JsonRepair[];
+  span: SourceSpan;
+  errors: CandidateError[]; // candidates that failed before this one
+}
 
-    // Smart JSON boundary detection
-    const findJsonBoundaries = (text) => {
-        let start = -1;
-        let end = -1;
-        let depth = 0;
-        let inString = false;
-        let escapeNext = false;
-
-        for (let i = 0; i < text.length; i++) {
-            const char = text[i];
-
-            if (escapeNext) {
-                escapeNext = false;
-                continue;
-            }
-
-            if (char === '\\') {
-                escapeNext = true;
-                continue;
-            }
-
-            if (char === '"' && !escapeNext) {
-                inString = !inString;
-                continue;
-            }
-
-            if (!inString) {
-                if (char === '{' || char === '[') {
-                    if (start === -1) start = i;
-                    depth++;
-                } else if (char === '}' || char === ']') {
-                    depth--;
-                    if (depth === 0 && start !== -1) {
-                        end = i + 1;
-                        break;
-                    }
-                }
-            }
-        }
-
-        if (start !== -1 && end !== -1) {
-            return text.substring(start, end);
-        }
-
-        // If we couldn't find complete boundaries but allowPartial is true
-        if (allowPartial && start !== -1) {
-            return text.substring(start) + (depth > 0 ? '}' : '');
-        }
-
-        return null;
-    };
+export interface ParseFailure {
+  success: false;
+  error: string;
+  errors: CandidateError[];
+}
 
-    // Enhanced parsing attempt
-    const tryParseJson = (jsonStr) => {
-        if (!jsonStr || jsonStr.trim().length === 0) {
-            return { success: false, data: null, error: 'Empty JSON string' };
-        }
-
-        let cleanJson = jsonStr.trim();
-
-        // Try direct parse first (fastest)
-        try {
-            const parsed = JSON.parse(cleanJson);
-            return { success: true, data: parsed, error: null };
-        } catch (firstError) {
-            // Continue to fixing attempts
-        }
-
-        if (attemptFix) {
-            // Try boundary detection
-            const boundedJson = findJsonBoundaries(cleanJson);
-            if (boundedJson) {
-                try {
-                    const parsed = JSON.parse(boundedJson);
-                    return { success: true, data: parsed, error: null };
-                } catch (e) {
-                    // Continue to other fixes
-                }
-            }
-
-            // Apply comprehensive fixes
-            cleanJson = fixCommonJsonIssues(cleanJson);
-
-            try {
-                const parsed = JSON.parse(cleanJson);
-                return { success: true, data: parsed, error: null };
-            } catch (secondError) {
-                // Last resort: try to extract just the JSON part
-                const extracted = findJsonBoundaries(cleanJson);
-                if (extracted) {
-                    try {
-                        const parsed = JSON.parse(extracted);
-                        return { success: true, data: parsed, error: null };
-                    } catch (e) {
-                        // Final failure
-                    }
-                }
-            }
-        }
-
-        return {
-            success: false,
-            data: null,
-            error: 'Failed to parse JSON after all attempts'
-        };
-    };
+export type ParseResult<T = unknown> = ParseSuccess<T> | ParseFailure;
 
-    // Main parsing logic
-    const candidates = extractJson(response);
-
-    // Helper to unwrap response field if present
-    const unwrapResponse = (data, maxAttempts = 2) => {
-        let current = data;
-        let attempts = 0;
-
-        while (attempts < maxAttempts && current && typeof current === 'object') {
-            // Check if there's a "response" field
-            if ('response' in current && current.response) {
-                // If response is a string, try to parse it
-                if (typeof current.response === 'string') {
-                    const parsed = tryParseJson(current.response);
-                    if (parsed.success) {
-                        current = parsed.data;
-                        attempts++;
-                    } else {
-                        // Can't parse the response string, return current
-                        break;
-                    }
-                }
-                // If response is already an object, unwrap it
-                else if (typeof current.response === 'object') {
-                    current = current.response;
-                    attempts++;
-                }
-                else {
-                    // Response field exists but isn't useful, break
-                    break;
-                }
-            } else {
-                // No response field, we're done
-                break;
-            }
-        }
-
-        return current;
-    };
+export interface ParseOptions {
+  attemptFix?: boolean;
+  maxBlocks?: number;
+  preferFirst?: boolean; // try candidates by strategy rather than by position
+  allowPartial?: boolean; // close truncated strings and brackets
+}
+
+interface Candidate {
+  strategy: ExtractionStrategy;
+  span: SourceSpan;
+}
 
-    // Try each candidate
-    for (const jsonStr of candidates) {
-        const result = tryParseJson(jsonStr);
-        if (result.success) {
-            return unwrapResponse(result.data);
-        }
+const STRATEGY_ORDER: ExtractionStrategy[] = ['json-fence', 'fence', 'inline', 'boundary-scan', 'whole'];
+
+// Balanced top-level structures shorter than this are too small to be worth trying
+const MIN_SCANNED_LENGTH = 10;
+
+// Span of the first balanced {...} or [...] in text from `from`, ignoring
+// brackets inside strings. `open` lists the brackets still unclosed when the
+// text ran out, innermost last
+function findJsonBoundaries(text: string, from: number = 0): { start: number; end: number; open: string[] } | null {
+  const stack: string[] = [];
+  let start = -1;
+  let inString = false;
+
+  for (let i = from; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (start === -1) {
+      if (char === '{' || char === '[') {
+        start = i;
+        stack.push(char);
+      }
+      continue;
     }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char);
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      if (stack.length === 0) return { start, end: i + 1, open: [] };
+    }
+  }
 
-    // If no candidates from extraction, try the whole response
-    const directResult = tryParseJson(response);
-    if (directResult.success) {
-        return unwrapResponse(directResult.data);
+  return start === -1 ? null : { start, end: text.length, open: stack };
+}
+
+// Where a trimmed capture group sits in the original text
+function groupSpan(matchIndex: number, whole: string, group: string): SourceSpan {
+  const start = matchIndex + whole.indexOf(group) + (group.length - group.trimStart().length);
+  return { start, end: start + group.trim().length };
+}
+
+function looksLikeJson(content: string): boolean {
+  return content.startsWith('{') || content.startsWith('[');
+}
+
+function extractCandidates(text: string, maxBlocks: number, preferFirst: boolean): Candidate[] {
+  const found: Candidate[] = [];
+  const seen = new Set<string>();
+  const add = (strategy: ExtractionStrategy, span: SourceSpan) => {
+    const key = `${span.start}:${span.end}`;
+    if (span.end <= span.start || seen.has(key) || found.length >= maxBlocks) return;
+    seen.add(key);
+    found.push({ strategy, span });
+  };
+
+  for (const match of text.matchAll(/```(?:json|JSON)\s*\n?([\s\S]*?)\n?```/g)) {
+    add('json-fence', groupSpan(match.index, match[0], match[1]));
+  }
+
+  for (const match of text.matchAll(/```\s*\n?([\s\S]*?)\n?```/g)) {
+    if (looksLikeJson(match[1].trim())) add('fence', groupSpan(match.index, match[0], match[1]));
+  }
+
+  for (const match of text.matchAll(/`([^`]+)`/g)) {
+    if (looksLikeJson(match[1].trim())) add('inline', groupSpan(match.index, match[0], match[1]));
+  }
+
+  let from = 0;
+  while (found.length < maxBlocks) {
+    const bounds = findJsonBoundaries(text, from);
+    if (!bounds || bounds.open.length > 0) break;
+    if (bounds.end - bounds.start > MIN_SCANNED_LENGTH) add('boundary-scan', bounds);
+    from = bounds.end;
+  }
+
+  return preferFirst
+    ? found.sort((a, b) => STRATEGY_ORDER.indexOf(a.strategy) - STRATEGY_ORDER.indexOf(b.strategy))
+    : found.sort((a, b) => a.span.start - b.span.start);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+type Attempt =
+  | { success: true; value: unknown; repairs: JsonRepair[]; span: SourceSpan }
+  | { success: false; repairs: JsonRepair[]; error: string };
+
+// Strict JSON first, then the lenient reader. `span` is where `text` sits in
+// the original response, so the winning span can be narrowed to the value
+function tryParse(text: string, span: SourceSpan, options: Required<ParseOptions>): Attempt {
+  const trimmed = text.trim();
+  if (!trimmed) return { success: false, repairs: [], error: 'Empty JSON string' };
+  const offset = span.start + (text.length - text.trimStart().length);
+
+  try {
+    return { success: true, value: JSON.parse(trimmed), repairs: [], span: { start: offset, end: offset + trimmed.length } };
+  } catch (error) {
+    if (!options.attemptFix) return { success: false, repairs: [], error: errorMessage(error) };
+  }
+
+  const bounds = findJsonBoundaries(trimmed);
+  if (bounds && bounds.open.length === 0 && (bounds.start > 0 || bounds.end < trimmed.length)) {
+    try {
+      return {
+        success: true,
+        value: JSON.parse(trimmed.slice(bounds.start, bounds.end)),
+        repairs: ['trim-to-boundary'],
+        span: { start: offset + bounds.start, end: offset + bounds.end },
+      };
+    } catch {
+      // Not strict JSON; the lenient reader below may cope
+    }
+  }
+
+  const lenient = (start: number, end: number, repairs: JsonRepair[]): Attempt => {
+    try {
+      const parsed = parseLenientJson(trimmed.slice(start, end), { allowPartial: options.allowPartial });
+      return { success: true, value: parsed.value, repairs: [...repairs, ...parsed.repairs], span: { start: offset + start, end: offset + end } };
+    } catch (error) {
+      return { success: false, repairs, error: errorMessage(error) };
     }
+  };
+
+  const whole = lenient(0, trimmed.length, []);
+  if (whole.success || !bounds || (bounds.start === 0 && bounds.end === trimmed.length)) return whole;
+  return lenient(bounds.start, bounds.end, ['trim-to-boundary']);
+}
 
-    // Final fallback: aggressive extraction
-    if (attemptFix) {
-        const aggressiveJson = findJsonBoundaries(response);
-        if (aggressiveJson) {
-            const result = tryParseJson(aggressiveJson);
-            if (result.success) {
-                return unwrapResponse(result.data);
-            }
-        }
+// Some agents wrap their answer as {"response": ...}, sometimes as a string of JSON
+function unwrapResponse(value: unknown, options: Required<ParseOptions>, maxDepth: number = 2): { value: unknown; unwrapped: boolean } {
+  let current = value;
+  let unwrapped = false;
+  for (let depth = 0; depth < maxDepth; depth++) {
+    if (!current || typeof current !== 'object' || !('response' in current)) break;
+    const inner = (current as { response: unknown }).response;
+    if (inner && typeof inner === 'object') {
+      current = inner;
+    } else if (typeof inner === 'string' && inner) {
+      const parsed = tryParse(inner, { start: 0, end: inner.length }, options);
+      if (!parsed.success) break;
+      current = parsed.value;
+    } else {
+      break;
     }
+    unwrapped = true;
+  }
+  return { value: current, unwrapped };
+}
 
+export function parseLLMJson<T = unknown>(response: string, options: ParseOptions = {}): ParseResult<T> {
+  const resolved: Required<ParseOptions> = {
+    attemptFix: options.attemptFix ?? true,
+    maxBlocks: options.maxBlocks ?? 5,
+    preferFirst: options.preferFirst ?? true,
+    allowPartial: options.allowPartial ?? false,
+  };
+
+  if (!response || typeof response !== 'string') {
+    return { success: false, error: 'Invalid input: response must be a non-empty string', errors: [] };
+  }
+
+  const candidates = extractCandidates(response, resolved.maxBlocks, resolved.preferFirst);
+  candidates.push({ strategy: 'whole', span: { start: 0, end: response.length } });
+
+  const errors: CandidateError[] = [];
+  for (const candidate of candidates) {
+    const attempt = tryParse(response.slice(candidate.span.start, candidate.span.end), candidate.span, resolved);
+    if (!attempt.success) {
+      errors.push({ strategy: candidate.strategy, span: candidate.span, repairs: attempt.repairs, error: attempt.error });
+      continue;
+    }
+    const { value, unwrapped } = unwrapResponse(attempt.value, resolved);
     return {
-        success: false,
-        data: null,
-        error: 'No valid JSON found in the response',
-        rawJson: null
+      success: true,
+      value: value as T,
+      strategy: candidate.strategy,
+      repairs: unwrapped ? [...attempt.repairs, 'unwrap-response'] : attempt.repairs,
+      span: attempt.span,
+      errors,
     };
+  }
+
+  const last = errors[errors.length - 1];
+  return {
+    success: false,
+    error: candidates.length > 1 ? `No valid JSON found in the response (${last.error})` : `No JSON found in the response (${last.error})`,
+    errors,
+  };
 }
 
-// Export for different module systems
-if (typeof module !== 'undefined' && module.exports) {
-    module.exports = parseLLMJson;
-} else if (typeof define === 'function' && define.amd) {
-    define([], function () { return parseLLMJson; });
-} else {
-    if (typeof globalThis !== 'undefined') {
-        globalThis.parseLLMJson = parseLLMJson;
-    } else if (typeof window !== 'undefined') {
-        window.parseLLMJson = parseLLMJson;
-    }
+// One line for logs: where the JSON came from and what had to be fixed
+export function describeParse(result: ParseResult): string {
+  if (!result.success) {
+    return `${result.error}; tried ${result.errors.map(error => error.strategy).join(', ') || 'nothing'}`;
+  }
+  const repairs = result.repairs.length > 0 ? `, repaired: ${result.repairs.join(', ')}` : '';
+  return `${result.strategy} at ${result.span.start}-${result.span.end}${repairs}`;
 }
 
-export default parseLLMJson;
\ No newline at end of file
+export default parseLLMJson;
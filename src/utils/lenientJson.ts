@@ -0,0 +1,302 @@
+// Tolerant JSON reader for agent output. It walks the text once, so the quirks
+// it forgives (JSON5 and Python-isms, comments, truncation) are only ever
+// recognised between tokens and never change what is inside a string
+
+export type LenientRepair =
+  | 'strip-bom'
+  | 'strip-comments'
+  | 'single-quotes'
+  | 'quote-keys'
+  | 'trailing-commas'
+  | 'missing-commas'
+  | 'python-literals'
+  | 'lenient-numbers'
+  | 'lenient-escapes'
+  | 'latex-escapes'
+  | 'unescaped-quotes'
+  | 'control-characters'
+  | 'strip-ellipsis'
+  | 'close-string'
+  | 'close-brackets';
+
+export interface LenientOptions {
+  allowPartial?: boolean; // close a truncated string and any open brackets
+}
+
+export interface LenientResult {
+  value: unknown;
+  repairs: LenientRepair[]; // in the order first needed
+}
+
+// Marks a value cut off by the end of the text
+const INCOMPLETE = Symbol('incomplete');
+
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+const LITERALS: Record<string, { value: unknown; repair?: LenientRepair }> = {
+  true: { value: true },
+  false: { value: false },
+  null: { value: null },
+  True: { value: true, repair: 'python-literals' },
+  False: { value: false, repair: 'python-literals' },
+  None: { value: null, repair: 'python-literals' },
+  undefined: { value: null, repair: 'python-literals' },
+};
+
+// LaTeX commands that a single backslash turns into JSON escapes (\frac reads
+// as a form feed and "rac"). Only these names count; any other \t or \n is a
+// real tab or line break
+const LATEX_COMMAND = new RegExp(`^(?:${[
+  'frac', 'forall',
+  'beta', 'bar', 'begin', 'binom', 'bigcup', 'bigcap', 'boldsymbol',
+  'right', 'rightarrow', 'rho', 'rangle', 'rfloor', 'rceil',
+  'theta', 'tau', 'times', 'text', 'textbf', 'textit', 'tilde', 'triangle',
+  'nabla', 'neq', 'newline', 'notin', 'neg', 'nleq', 'ngeq',
+].join('|')})(?![A-Za-z])`);
+
+function isLatexCommand(text: string, at: number): boolean {
+  return LATEX_COMMAND.test(text.slice(at, at + 12));
+}
+
+const NUMBER = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const STRICT_NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+const IDENTIFIER = /[A-Za-z_$][\w$\-.]*/y;
+
+// Throws a SyntaxError with the offset when the text cannot be read even leniently
+export function parseLenientJson(text: string, options: LenientOptions = {}): LenientResult {
+  const allowPartial = options.allowPartial ?? false;
+  const repairs = new Set<LenientRepair>();
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new SyntaxError(`${message} at position ${pos}`);
+  };
+  const atEnd = () => pos >= text.length;
+
+  if (text.charCodeAt(0) === 0xfeff) {
+    repairs.add('strip-bom');
+    pos = 1;
+  }
+
+  // Whitespace, comments and placeholder ellipses between tokens
+  const skipTrivia = () => {
+    while (!atEnd()) {
+      const char = text[pos];
+      if (/\s/.test(char)) {
+        pos++;
+      } else if (text.startsWith('//', pos) || char === '#') {
+        repairs.add('strip-comments');
+        const newline = text.indexOf('\n', pos);
+        pos = newline === -1 ? text.length : newline + 1;
+      } else if (text.startsWith('/*', pos)) {
+        repairs.add('strip-comments');
+        const close = text.indexOf('*/', pos + 2);
+        if (close === -1 && !allowPartial) fail('Unterminated comment');
+        pos = close === -1 ? text.length : close + 2;
+      } else if (text.startsWith('...', pos) || char === '…') {
+        repairs.add('strip-ellipsis');
+        pos += char === '…' ? 1 : 3;
+        // A placeholder among the elements brings its own comma: ["a", ..., "b"]
+        const comma = text.slice(pos).match(/^[ \t\r\n]*,/);
+        if (comma) pos += comma[0].length;
+      } else {
+        break;
+      }
+    }
+  };
+
+  // A closing quote only ends the string when something that can follow a
+  // string comes next; otherwise it is an unescaped quote inside the text
+  const endsString = (after: number) => {
+    let next = after;
+    while (next < text.length && /[ \t]/.test(text[next])) next++;
+    return next >= text.length || /[,:}\]\r\n/#]/.test(text[next]);
+  };
+
+  const readString = (): string => {
+    const quote = text[pos];
+    if (quote === "'") repairs.add('single-quotes');
+    pos++;
+    let result = '';
+    while (!atEnd()) {
+      const char = text[pos];
+      if (char === quote) {
+        if (!endsString(pos + 1)) {
+          repairs.add('unescaped-quotes');
+          result += char;
+          pos++;
+          continue;
+        }
+        pos++;
+        return result;
+      }
+      if (char === '\\') {
+        const escaped = text[pos + 1];
+        if (escaped === undefined) {
+          pos++;
+          break;
+        }
+        if (isLatexCommand(text, pos + 1)) {
+          repairs.add('latex-escapes');
+          result += `\\${escaped}`;
+          pos += 2;
+        } else if (escaped in ESCAPES) {
+          result += ESCAPES[escaped];
+          pos += 2;
+        } else if (escaped === 'u' && /^[0-9a-fA-F]{4}$/.test(text.slice(pos + 2, pos + 6))) {
+          result += String.fromCharCode(parseInt(text.slice(pos + 2, pos + 6), 16));
+          pos += 6;
+        } else if (escaped === "'") {
+          repairs.add('lenient-escapes');
+          result += "'";
+          pos += 2;
+        } else {
+          // Keep stray backslashes such as LaTeX commands as written
+          repairs.add('lenient-escapes');
+          result += `\\${escaped}`;
+          pos += 2;
+        }
+        continue;
+      }
+      if (char < ' ') repairs.add('control-characters');
+      result += char;
+      pos++;
+    }
+    if (!allowPartial) fail('Unterminated string');
+    repairs.add('close-string');
+    return result;
+  };
+
+  const readKey = (): string => {
+    const char = text[pos];
+    if (char === '"' || char === "'") return readString();
+    IDENTIFIER.lastIndex = pos;
+    const match = IDENTIFIER.exec(text);
+    if (match) {
+      repairs.add('quote-keys');
+      pos += match[0].length;
+      return match[0];
+    }
+    NUMBER.lastIndex = pos;
+    const number = NUMBER.exec(text);
+    if (number) {
+      repairs.add('quote-keys');
+      pos += number[0].length;
+      return number[0];
+    }
+    return fail(`Unexpected ${JSON.stringify(char)} where a key was expected`);
+  };
+
+  const readNumber = (): number => {
+    NUMBER.lastIndex = pos;
+    const match = NUMBER.exec(text);
+    if (!match) return fail(`Unexpected ${JSON.stringify(text[pos])}`);
+    pos += match[0].length;
+    if (!STRICT_NUMBER.test(match[0])) repairs.add('lenient-numbers');
+    return Number(match[0]);
+  };
+
+  const readLiteral = (): unknown => {
+    IDENTIFIER.lastIndex = pos;
+    const word = IDENTIFIER.exec(text)?.[0] ?? '';
+    const literal = LITERALS[word];
+    if (literal) {
+      pos += word.length;
+      if (literal.repair) repairs.add(literal.repair);
+      return literal.value;
+    }
+    // A literal cut off by the end of the text, e.g. "tru"
+    if (allowPartial && pos + word.length >= text.length && Object.keys(LITERALS).some(name => name.startsWith(word))) {
+      pos = text.length;
+      return INCOMPLETE;
+    }
+    return fail(`Unexpected ${word ? `"${word}"` : JSON.stringify(text[pos])}`);
+  };
+
+  // After a member or element: true to read another, false when the container closes
+  const readSeparator = (close: string): boolean => {
+    skipTrivia();
+    if (atEnd()) return false;
+    if (text[pos] === close) return false;
+    if (text[pos] === ',') {
+      pos++;
+      skipTrivia();
+      if (text[pos] === close) {
+        repairs.add('trailing-commas');
+        return false;
+      }
+      return true;
+    }
+    if (text[pos] === '}' || text[pos] === ']') fail(`Mismatched "${text[pos]}"`);
+    repairs.add('missing-commas');
+    return true;
+  };
+
+  // Consumes the closing bracket, or closes it for truncated input
+  const close = (bracket: string) => {
+    if (!atEnd()) {
+      pos++;
+      return;
+    }
+    if (!allowPartial) fail(`Expected "${bracket}" before the end of the text`);
+    repairs.add('close-brackets');
+  };
+
+  const readObject = (): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    pos++;
+    skipTrivia();
+    if (!atEnd() && text[pos] !== '}') {
+      do {
+        skipTrivia();
+        if (atEnd()) break;
+        const key = readKey();
+        skipTrivia();
+        if (atEnd()) break;
+        if (text[pos] !== ':') fail(`Expected ":" after key "${key}"`);
+        pos++;
+        const value = readValue();
+        if (value === INCOMPLETE) break;
+        result[key] = value;
+      } while (readSeparator('}'));
+    }
+    close('}');
+    return result;
+  };
+
+  const readArray = (): unknown[] => {
+    const result: unknown[] = [];
+    pos++;
+    skipTrivia();
+    if (!atEnd() && text[pos] !== ']') {
+      do {
+        const value = readValue();
+        if (value === INCOMPLETE) break;
+        result.push(value);
+      } while (readSeparator(']'));
+    }
+    close(']');
+    return result;
+  };
+
+  const readValue = (): unknown => {
+    skipTrivia();
+    if (atEnd()) {
+      if (!allowPartial) fail('Unexpected end of the text');
+      return INCOMPLETE;
+    }
+    const char = text[pos];
+    if (char === '{') return readObject();
+    if (char === '[') return readArray();
+    if (char === '"' || char === "'") return readString();
+    if (/[-+.\d]/.test(char)) return readNumber();
+    return readLiteral();
+  };
+
+  const value = readValue();
+  if (value === INCOMPLETE) fail('Unexpected end of the text');
+  skipTrivia();
+  if (!atEnd()) fail('Unexpected text after the JSON value');
+
+  return { value, repairs: [...repairs] };
+}
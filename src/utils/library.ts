@@ -0,0 +1,118 @@
+import type { StudySession, Subject, SubjectSummary } from '../types';
+
+// IndexedDB-backed library of subjects (notes plus generated materials) and
+// the study sessions recorded against them
+
+const DB_NAME = 'studygenius';
+const DB_VERSION = 2;
+const SUBJECT_STORE = 'subjects';
+const SESSION_STORE = 'studySessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SUBJECT_STORE)) {
+        const store = db.createObjectStore(SUBJECT_STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        store.createIndex('subjectId', 'subjectId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry after a failed open
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = SUBJECT_STORE
+): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  return promisify(run(tx.objectStore(storeName)));
+}
+
+export function createSubjectId(): string {
+  return `subject-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+export function defaultSubjectName(notes: string): string {
+  const firstLine = notes.split('\n').map(line => line.trim()).find(Boolean);
+  if (!firstLine) return 'Untitled subject';
+  return firstLine.length > 40 ? `${firstLine.substring(0, 40)}…` : firstLine;
+}
+
+export function summarizeSubject(subject: Subject): SubjectSummary {
+  return {
+    id: subject.id,
+    name: subject.name,
+    createdAt: subject.createdAt,
+    updatedAt: subject.updatedAt,
+    itemCount: subject.flashcards.length + subject.mcqs.length + subject.mockTest.length
+  };
+}
+
+export async function listSubjects(): Promise<SubjectSummary[]> {
+  const subjects = await withStore<Subject[]>('readonly', store => store.getAll());
+  return subjects
+    .map(summarizeSubject)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getSubject(id: string): Promise<Subject | undefined> {
+  return withStore<Subject | undefined>('readonly', store => store.get(id));
+}
+
+export async function saveSubject(subject: Subject): Promise<void> {
+  await withStore('readwrite', store => store.put(subject));
+}
+
+export async function renameSubject(id: string, name: string): Promise<void> {
+  const subject = await getSubject(id);
+  if (!subject) throw new Error(`Subject ${id} not found`);
+  await saveSubject({ ...subject, name: name.trim() || subject.name, updatedAt: Date.now() });
+}
+
+export async function deleteSubject(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+  const sessionIds = await withStore<IDBValidKey[]>('readonly', store => store.index('subjectId').getAllKeys(id), SESSION_STORE);
+  await Promise.all(sessionIds.map(key => withStore('readwrite', store => store.delete(key), SESSION_STORE)));
+}
+
+// Saving under an existing id replaces it, e.g. when a mock test answer is re-marked
+export async function saveStudySession(session: StudySession): Promise<void> {
+  await withStore('readwrite', store => store.put(session), SESSION_STORE);
+}
+
+export async function listStudySessions(): Promise<StudySession[]> {
+  const sessions = await withStore<StudySession[]>('readonly', store => store.getAll(), SESSION_STORE);
+  return sessions.sort((a, b) => a.startedAt - b.startedAt);
+}
@@ -0,0 +1,91 @@
+import type { MockQuestionType, MockTestQuestion } from '../types';
+import { questionTokens } from './similarity';
+
+// Scoring for mock test runs
+
+export interface QuestionResult {
+  index: number;
+  answer: string;
+  correct: boolean;
+  // Short answers are auto-graded loosely and can be overridden by the student
+  overridden: boolean;
+}
+
+export interface TestScore {
+  correct: number;
+  total: number;
+  percent: number;
+  byType: Record<MockQuestionType, { correct: number; total: number }>;
+  results: QuestionResult[];
+}
+
+export const QUESTION_TYPE_LABELS: Record<MockQuestionType, string> = {
+  mcq: 'Multiple choice',
+  truefalse: 'True / False',
+  short: 'Short answer',
+};
+
+export function questionType(question: MockTestQuestion): MockQuestionType {
+  if (question.type) return question.type;
+  return question.options.length === 0 ? 'short' : 'mcq';
+}
+
+// Accepts a short answer when it contains most of the model answer's content words
+export function isShortAnswerCorrect(answer: string, modelAnswer: string): boolean {
+  const given = answer.trim().toLowerCase();
+  const expected = modelAnswer.trim().toLowerCase();
+  if (!given) return false;
+  if (given === expected) return true;
+
+  const expectedTokens = questionTokens(expected);
+  if (expectedTokens.size === 0) return false;
+  const givenTokens = questionTokens(given);
+  let matched = 0;
+  expectedTokens.forEach(token => {
+    if (givenTokens.has(token)) matched++;
+  });
+  return matched / expectedTokens.size >= 0.6;
+}
+
+export function gradeAnswer(question: MockTestQuestion, answer: string | undefined): boolean {
+  if (!answer) return false;
+  if (questionType(question) === 'short') return isShortAnswerCorrect(answer, question.correctAnswer);
+  return answer === question.correctAnswer;
+}
+
+export function scoreTest(
+  questions: MockTestQuestion[],
+  answers: Record<number, string>,
+  overrides: Record<number, boolean> = {}
+): TestScore {
+  const byType: TestScore['byType'] = {
+    mcq: { correct: 0, total: 0 },
+    truefalse: { correct: 0, total: 0 },
+    short: { correct: 0, total: 0 },
+  };
+
+  const results = questions.map((question, index) => {
+    const answer = answers[index] ?? '';
+    const overridden = index in overrides;
+    const correct = overridden ? overrides[index] : gradeAnswer(question, answer);
+    const bucket = byType[questionType(question)];
+    bucket.total++;
+    if (correct) bucket.correct++;
+    return { index, answer, correct, overridden };
+  });
+
+  const correct = results.filter(result => result.correct).length;
+  return {
+    correct,
+    total: questions.length,
+    percent: questions.length > 0 ? Math.round((correct / questions.length) * 100) : 0,
+    byType,
+    results,
+  };
+}
+
+export function formatClock(seconds: number): string {
+  const safe = Math.max(0, seconds);
+  const minutes = Math.floor(safe / 60);
+  return `${minutes}:${String(safe % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,188 @@
+// In-browser text extraction for uploaded notes (PDF, DOCX, Markdown, HTML, plain text)
+
+export type NoteFileKind = 'pdf' | 'docx' | 'markdown' | 'html' | 'text';
+
+export interface ExtractedDocument {
+  fileName: string;
+  kind: NoteFileKind;
+  text: string;
+  pageCount?: number;
+  warnings: string[];
+}
+
+export const ACCEPTED_NOTE_FILES = '.txt,.md,.markdown,.html,.htm,.pdf,.docx';
+
+export function detectNoteFileKind(file: File): NoteFileKind | null {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.pdf') || file.type === 'application/pdf') return 'pdf';
+  if (name.endsWith('.docx')) return 'docx';
+  if (name.endsWith('.md') || name.endsWith('.markdown')) return 'markdown';
+  if (name.endsWith('.html') || name.endsWith('.htm') || file.type === 'text/html') return 'html';
+  if (name.endsWith('.txt') || file.type.startsWith('text/')) return 'text';
+  return null;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\u00a0]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Converts HTML into readable plain text, keeping headings and list structure
+export function htmlToText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, style, noscript, template, head').forEach(node => node.remove());
+
+  const lines: string[] = [];
+
+  const inlineText = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return node.textContent ?? '';
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const element = node as Element;
+    if (element.tagName === 'BR') return '\n';
+    return Array.from(element.childNodes).map(inlineText).join('');
+  };
+
+  const isList = (node: Node) => node instanceof Element && (node.tagName === 'UL' || node.tagName === 'OL');
+  // Containers with text of their own mix it with inline markup, so they are read as one block
+  const hasOwnText = (element: Element) =>
+    Array.from(element.childNodes).some(node => node.nodeType === Node.TEXT_NODE && (node.textContent ?? '').trim() !== '');
+
+  const walk = (elements: Element[], listDepth: number) => {
+    for (const child of elements) {
+      const tag = child.tagName;
+      const heading = tag.match(/^H([1-6])$/);
+
+      if (heading) {
+        lines.push('', `${'#'.repeat(Number(heading[1]))} ${inlineText(child).trim()}`, '');
+      } else if (tag === 'UL' || tag === 'OL') {
+        Array.from(child.children).forEach((item, index) => {
+          if (item.tagName !== 'LI') return;
+          const marker = tag === 'OL' ? `${index + 1}.` : '-';
+          const ownText = Array.from(item.childNodes)
+            .filter(part => !isList(part))
+            .map(inlineText)
+            .join('')
+            .trim();
+          lines.push(`${'  '.repeat(listDepth)}${marker} ${ownText}`);
+          walk(Array.from(item.children).filter(isList), listDepth + 1);
+        });
+        if (listDepth === 0) lines.push('');
+      } else if (tag === 'TABLE') {
+        child.querySelectorAll('tr').forEach(row => {
+          lines.push(Array.from(row.children).map(cell => inlineText(cell).trim()).join(' | '));
+        });
+        lines.push('');
+      } else if (['P', 'PRE', 'BLOCKQUOTE', 'DT', 'DD', 'FIGCAPTION'].includes(tag)) {
+        const text = inlineText(child).trim();
+        if (text) lines.push(tag === 'BLOCKQUOTE' ? `> ${text}` : text, '');
+      } else if (child.children.length > 0 && !hasOwnText(child)) {
+        walk(Array.from(child.children), listDepth);
+      } else {
+        const text = inlineText(child).trim();
+        if (text) lines.push(text, '');
+      }
+    }
+  };
+
+  if (doc.body) walk(Array.from(doc.body.children), 0);
+  return normalizeWhitespace(lines.join('\n'));
+}
+
+// Strips Markdown syntax that adds noise for generation while keeping headings and lists
+export function cleanMarkdown(markdown: string): string {
+  return normalizeWhitespace(
+    markdown
+      .replace(/^---\n[\s\S]*?\n---\n/, '') // front matter
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/^\[[^\]]+\]:\s*\S+.*$/gm, '') // reference-style link definitions
+      .replace(/<\/?[a-z][^>]*>/gi, '')
+  );
+}
+
+async function extractPdf(file: File): Promise<ExtractedDocument> {
+  const pdfjs = await import('pdfjs-dist');
+  const workerUrl = (await import('pdfjs-dist/build/pdf.worker.min.mjs?url')).default;
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: string[] = [];
+  const warnings: string[] = [];
+  const emptyPages: number[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+
+    let pageText = '';
+    let lastY: number | null = null;
+    for (const item of content.items) {
+      if (!('str' in item)) continue;
+      const y = item.transform[5];
+      if (lastY !== null && Math.abs(y - lastY) > 2 && !pageText.endsWith('\n')) {
+        pageText += '\n';
+      }
+      pageText += item.str;
+      if (item.hasEOL) pageText += '\n';
+      lastY = y;
+    }
+
+    const cleaned = normalizeWhitespace(pageText);
+    if (!cleaned) emptyPages.push(pageNumber);
+    pages.push(`--- Page ${pageNumber} ---\n${cleaned}`);
+  }
+
+  if (emptyPages.length === pdf.numPages) {
+    warnings.push('No text layer found. This PDF is probably scanned images; run it through OCR first.');
+  } else if (emptyPages.length > 0) {
+    warnings.push(`No text found on page${emptyPages.length === 1 ? '' : 's'} ${emptyPages.join(', ')}.`);
+  }
+
+  return {
+    fileName: file.name,
+    kind: 'pdf',
+    text: pages.join('\n\n'),
+    pageCount: pdf.numPages,
+    warnings,
+  };
+}
+
+async function extractDocx(file: File): Promise<ExtractedDocument> {
+  const mammoth = await import('mammoth');
+  const result = await mammoth.convertToHtml({ arrayBuffer: await file.arrayBuffer() });
+  return {
+    fileName: file.name,
+    kind: 'docx',
+    text: htmlToText(result.value),
+    warnings: result.messages
+      .filter(message => message.type === 'error')
+      .map(message => message.message),
+  };
+}
+
+export async function extractTextFromFile(file: File): Promise<ExtractedDocument> {
+  const kind = detectNoteFileKind(file);
+
+  if (file.name.toLowerCase().endsWith('.doc')) {
+    throw new Error(`"${file.name}" is a legacy Word file. Save it as .docx or PDF and upload again.`);
+  }
+
+  switch (kind) {
+    case 'pdf':
+      return extractPdf(file);
+    case 'docx':
+      return extractDocx(file);
+    case 'markdown':
+      return { fileName: file.name, kind, text: cleanMarkdown(await file.text()), warnings: [] };
+    case 'html':
+      return { fileName: file.name, kind, text: htmlToText(await file.text()), warnings: [] };
+    case 'text':
+      return { fileName: file.name, kind, text: normalizeWhitespace(await file.text()), warnings: [] };
+    default:
+      throw new Error(`Unsupported file type: "${file.name}". Upload PDF, DOCX, Markdown, HTML or text.`);
+  }
+}
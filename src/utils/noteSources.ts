@@ -0,0 +1,69 @@
+import type { NoteSource, NoteSourceKind } from '../types';
+
+// Named note sources that make up a study session, and provenance tagging of
+// generated items
+
+export const PASTED_SOURCE_NAME = 'Pasted notes';
+
+export function createSource(name: string, text: string, kind: NoteSourceKind): NoteSource {
+  return {
+    id: `source-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+    name,
+    kind,
+    text,
+    enabled: true,
+    addedAt: Date.now(),
+  };
+}
+
+export function enabledSources(sources: NoteSource[]): NoteSource[] {
+  return sources.filter(source => source.enabled && source.text.trim());
+}
+
+// Short label the agent echoes back to say where an item came from
+export function sourceLabel(index: number): string {
+  return `S${index + 1}`;
+}
+
+export function combineSources(sources: NoteSource[]): string {
+  const active = enabledSources(sources);
+  if (active.length <= 1) return active[0]?.text ?? '';
+  return active
+    .map((source, index) => `### [${sourceLabel(index)}] ${source.name}\n${source.text.trim()}`)
+    .join('\n\n');
+}
+
+export function sourceTaggingInstruction(sources: NoteSource[]): string {
+  const active = enabledSources(sources);
+  if (active.length <= 1) return '';
+  const labels = active.map((source, index) => `"${sourceLabel(index)}" (${source.name})`).join(', ');
+  return `\n\nThe notes come from several sources marked [S1], [S2], ... Every item must also include a "source" field with the label of the source it is based on: ${labels}.`;
+}
+
+export function resolveSourceId(tag: string | undefined, sources: NoteSource[]): string | undefined {
+  const active = enabledSources(sources);
+  if (active.length === 1) return active[0].id;
+  if (!tag) return undefined;
+
+  const label = tag.trim().replace(/^\[|\]$/g, '').toUpperCase();
+  const byLabel = active.findIndex((_, index) => sourceLabel(index) === label);
+  if (byLabel >= 0) return active[byLabel].id;
+
+  const byName = active.find(source => source.name.toLowerCase() === tag.trim().toLowerCase());
+  return byName?.id ?? active.find(source => source.id === tag)?.id;
+}
+
+export function tagItemsWithSources<T extends { source?: string }>(items: T[], sources: NoteSource[]): T[] {
+  return items.map(item => {
+    const source = resolveSourceId(item.source, sources);
+    if (source) return { ...item, source };
+    const untagged = { ...item };
+    delete untagged.source;
+    return untagged;
+  });
+}
+
+// Subjects saved before sources existed only carry the combined notes string
+export function sourcesFromLegacyNotes(notes: string): NoteSource[] {
+  return notes.trim() ? [createSource(PASTED_SOURCE_NAME, notes, 'pasted')] : [];
+}
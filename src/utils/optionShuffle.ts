@@ -0,0 +1,72 @@
+// Per-attempt option order for quizzes and mock tests. Agents put the correct
+// answer first far more often than chance, so options are shown in an order
+// drawn from a seed; the seed is kept with the recorded session, which makes
+// the order a student saw reproducible
+
+// Options made only of letters, e.g. "Both A and B", "A, B and C" or "Only A"
+const LETTER_LIST = /^(?:([Bb]oth|[Oo]nly)\s+)?([A-H](?:(?:\s*,\s*[A-H])*\s*(?:,|and|&)\s*[A-H])?)(\s+only)?\.?$/;
+
+// An option's own letter label, e.g. "A) Mitochondria" or "(B) Ribosome"
+const LETTER_LABEL = /^\(?[A-H][.)]\s+/;
+
+// Options that point at the others by position ("All of the above")
+const SUMMARY_OPTION = /\b(?:all|none|both|neither) of the (?:above|options|choices|answers)\b/i;
+
+// Whether an option names other options of the item by letter. A bare pair
+// such as "B and C" is just as often a real answer (vitamins, blood groups),
+// so it only counts when the other options are labelled with letters too
+export function isLetterReference(option: string, options: string[]): boolean {
+  const match = option.trim().match(LETTER_LIST);
+  if (!match) return false;
+  const letters = match[2].match(/[A-H]/g) ?? [];
+  if (letters.some(letter => letter.charCodeAt(0) - 65 >= options.length)) return false;
+  if (match[1] || match[3] || letters.length >= 3) return true;
+  const answers = options.filter(other => !LETTER_LIST.test(other.trim()) && !SUMMARY_OPTION.test(other));
+  return letters.length > 1 && answers.length > 0 && answers.every(other => LETTER_LABEL.test(other.trim()));
+}
+
+export function isMetaOption(option: string, options: string[]): boolean {
+  return SUMMARY_OPTION.test(option) || isLetterReference(option, options);
+}
+
+const TRUE_FALSE = /^(?:true|false)$/i;
+
+export function createShuffleSeed(): number {
+  return Math.floor(Math.random() * 0x7fffffff);
+}
+
+// FNV-1a, so each question gets its own stream from the attempt's seed
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+// mulberry32: small, fast and good enough for ordering four options
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Same seed and question, same order. True/false keeps its natural order and
+// options referring to the others stay at the end where they make sense
+export function shuffleOptions(options: string[], seed: number, question: string): string[] {
+  if (options.length === 2 && options.every(option => TRUE_FALSE.test(option.trim()))) return options;
+
+  const pinned = options.filter(option => isMetaOption(option, options));
+  const free = options.filter(option => !isMetaOption(option, options));
+  const random = seededRandom(hash(`${seed}:${question}`));
+  for (let i = free.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [free[i], free[j]] = [free[j], free[i]];
+  }
+  return [...free, ...pinned];
+}
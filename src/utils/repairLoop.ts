@@ -0,0 +1,148 @@
+import { createSessionId, streamResponse } from '../providers';
+import type { LLMProvider, ProviderRequest } from '../providers';
+import type { Flashcard, MCQ, MaterialType, MockTestQuestion } from '../types';
+import { createJsonArrayStream } from './streamingJson';
+import { validateStudyItems } from './studySchema';
+import type { RejectedItem } from './studySchema';
+
+// Generate-validate-repair loop for the study agent: when the reply cannot be
+// parsed or validated, the agent is shown its own output and the errors and
+// asked for corrected JSON
+
+export type StudyItem = Flashcard | MCQ | MockTestQuestion;
+
+export interface GenerationAttempt {
+  attempt: number;
+  kind: 'initial' | 'repair';
+  chunk?: number; // 1-based chunk number for chunked generation
+  prompt: string;
+  response: string;
+  parseError: string | null;
+  parseDetail?: string;
+  accepted: number;
+  rejected: RejectedItem[];
+  durationMs: number;
+  timestamp: number;
+}
+
+export interface GenerationResult {
+  items: StudyItem[];
+  rejected: RejectedItem[];
+  attempts: GenerationAttempt[];
+}
+
+export interface ParseOutcome {
+  data: unknown;
+  error: string | null;
+  detail?: string; // how the data was found or why it was not, for the generation log
+}
+
+export interface RepairLoopOptions {
+  provider: LLMProvider;
+  type: MaterialType;
+  prompt: string;
+  parse: (content: string) => ParseOutcome;
+  maxAttempts: number;
+  signal?: AbortSignal;
+  // Streams the reply and reports the valid items of the current attempt as each one completes
+  onItems?: (items: StudyItem[]) => void;
+}
+
+export class GenerationError extends Error {
+  readonly attempts: GenerationAttempt[];
+
+  constructor(message: string, attempts: GenerationAttempt[]) {
+    super(message);
+    this.name = 'GenerationError';
+    this.attempts = attempts;
+  }
+}
+
+const MAX_ECHOED_RESPONSE = 4000;
+
+export function buildRepairPrompt(type: MaterialType, response: string, parseError: string | null, rejected: RejectedItem[]): string {
+  const problems = parseError
+    ? [`The response could not be parsed as JSON: ${parseError}`]
+    : rejected.map(item => `${item.index >= 0 ? `Item ${item.index + 1}` : 'Response'}: ${item.reason}`);
+
+  const echoed = response.length > MAX_ECHOED_RESPONSE
+    ? `${response.substring(0, MAX_ECHOED_RESPONSE)}\n…(truncated)`
+    : response;
+
+  return `Your previous ${type} output was not usable.
+
+Problems:
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+Previous output:
+${echoed}
+
+Return the corrected ${type} as a single valid JSON array only. Fix every problem listed above, keep all valid items, and do not add any text outside the JSON.`;
+}
+
+// An attempt is usable when it parsed and no items were rejected
+function isClean(attempt: GenerationAttempt): boolean {
+  return !attempt.parseError && attempt.rejected.length === 0 && attempt.accepted > 0;
+}
+
+export async function generateWithRepair(options: RepairLoopOptions): Promise<GenerationResult> {
+  const { provider, type, parse, signal, onItems } = options;
+  const maxAttempts = Math.max(1, options.maxAttempts);
+  const sessionId = createSessionId('study');
+  const attempts: GenerationAttempt[] = [];
+
+  let best: { items: StudyItem[]; rejected: RejectedItem[] } | null = null;
+  let prompt = options.prompt;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const started = Date.now();
+    const streamed: unknown[] = [];
+    const stream = createJsonArrayStream(element => {
+      streamed.push(element);
+      onItems?.(validateStudyItems(type, streamed).items);
+    });
+    const request: ProviderRequest = { agent: 'study', message: prompt, sessionId, signal };
+    const { content } = onItems
+      ? await streamResponse(provider, request, delta => stream.push(delta))
+      : await provider.sendMessage(request);
+
+    const parsed: ParseOutcome = content.trim()
+      ? parse(content)
+      : { data: null, error: 'The agent returned an empty response' };
+
+    const validation = parsed.error ? { items: [], rejected: [] } : validateStudyItems(type, parsed.data);
+
+    const record: GenerationAttempt = {
+      attempt,
+      kind: attempt === 1 ? 'initial' : 'repair',
+      prompt,
+      response: content,
+      parseError: parsed.error,
+      parseDetail: parsed.detail,
+      accepted: validation.items.length,
+      rejected: validation.rejected,
+      durationMs: Date.now() - started,
+      timestamp: started,
+    };
+    attempts.push(record);
+
+    if (validation.items.length > (best?.items.length ?? 0)) {
+      best = { items: validation.items, rejected: validation.rejected };
+    }
+
+    if (isClean(record)) break;
+
+    prompt = buildRepairPrompt(type, content, parsed.error, validation.rejected);
+  }
+
+  if (!best || best.items.length === 0) {
+    const last = attempts[attempts.length - 1];
+    const reason = last.parseError ?? last.rejected[0]?.reason ?? 'no items were returned';
+    throw new GenerationError(
+      `The study agent did not return usable ${type} after ${attempts.length} attempt${attempts.length === 1 ? '' : 's'} (${reason}).`,
+      attempts
+    );
+  }
+
+  return { ...best, attempts };
+}
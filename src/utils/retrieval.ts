@@ -0,0 +1,191 @@
+import type { NoteCitation, NoteSource } from '../types';
+import { enabledSources } from './noteSources';
+
+// Local BM25 retrieval over the notes, so the tutor only sees the passages
+// relevant to a question and can cite them back into the source text
+
+export interface Passage {
+  id: string; // "P1", "P2", ... as cited by the tutor
+  sourceId: string;
+  sourceName: string;
+  start: number; // character offsets into the source text
+  end: number;
+  text: string;
+}
+
+export interface PassageIndex {
+  passages: Passage[];
+  termFrequencies: Map<string, number>[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+export const PASSAGE_CHARS = 600;
+export const TOP_PASSAGES = 4;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'in', 'on', 'to', 'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that',
+  'these', 'those', 'and', 'or', 'but', 'for', 'by', 'with', 'as', 'at', 'from', 'what', 'which', 'who', 'how',
+  'why', 'when', 'does', 'do', 'did', 'can', 'could', 'would', 'should', 'i', 'me', 'my', 'you', 'your', 'about',
+  'explain', 'please', 'tell',
+]);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+// Paragraph spans, with oversized paragraphs broken on sentence boundaries
+function paragraphSpans(text: string, maxChars: number): Span[] {
+  const spans: Span[] = [];
+  for (const match of text.matchAll(/[^\n]+(?:\n(?![ \t]*\n)[^\n]*)*/g)) {
+    const start = match.index ?? 0;
+    const paragraph = match[0];
+    if (!paragraph.trim()) continue;
+    if (paragraph.length <= maxChars) {
+      spans.push({ start, end: start + paragraph.length });
+      continue;
+    }
+    for (const sentence of paragraph.matchAll(/[^.!?]+(?:[.!?]+|$)\s*/g)) {
+      const sentenceStart = start + (sentence.index ?? 0);
+      spans.push({ start: sentenceStart, end: sentenceStart + sentence[0].trimEnd().length });
+    }
+  }
+  return spans;
+}
+
+// Short fragments (a heading, a one-line paragraph) are merged into the span
+// that follows, so each passage is a focused, citable unit
+function mergeSpans(text: string, spans: Span[], maxChars: number): Span[] {
+  const merged: Span[] = [];
+  for (const span of spans) {
+    const last = merged[merged.length - 1];
+    const startsSection = /^#{1,6} |^--- Page \d+ ---/.test(text.slice(span.start, span.end));
+    if (last && !startsSection && last.end - last.start < maxChars / 3 && span.end - last.start <= maxChars) {
+      last.end = span.end;
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+export function buildPassages(sources: NoteSource[], maxChars: number = PASSAGE_CHARS): Passage[] {
+  const passages: Passage[] = [];
+  for (const source of enabledSources(sources)) {
+    for (const span of mergeSpans(source.text, paragraphSpans(source.text, maxChars), maxChars)) {
+      passages.push({
+        id: `P${passages.length + 1}`,
+        sourceId: source.id,
+        sourceName: source.name,
+        start: span.start,
+        end: span.end,
+        text: source.text.slice(span.start, span.end).trim(),
+      });
+    }
+  }
+  return passages;
+}
+
+export function buildPassageIndex(sources: NoteSource[]): PassageIndex {
+  const passages = buildPassages(sources);
+  const termFrequencies = passages.map(passage => {
+    const counts = new Map<string, number>();
+    tokenize(passage.text).forEach(token => counts.set(token, (counts.get(token) ?? 0) + 1));
+    return counts;
+  });
+
+  const documentFrequency = new Map<string, number>();
+  termFrequencies.forEach(counts => {
+    counts.forEach((_, token) => documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1));
+  });
+
+  const totalLength = termFrequencies.reduce(
+    (sum, counts) => sum + Array.from(counts.values()).reduce((a, b) => a + b, 0),
+    0
+  );
+
+  return {
+    passages,
+    termFrequencies,
+    documentFrequency,
+    averageLength: passages.length > 0 ? totalLength / passages.length : 0,
+  };
+}
+
+export function searchPassages(index: PassageIndex, query: string, limit: number = TOP_PASSAGES): Passage[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  const total = index.passages.length;
+  if (terms.length === 0 || total === 0) return [];
+
+  const scored = index.passages.map((passage, i) => {
+    const counts = index.termFrequencies[i];
+    const length = Array.from(counts.values()).reduce((a, b) => a + b, 0);
+    let score = 0;
+    for (const term of terms) {
+      const frequency = counts.get(term) ?? 0;
+      if (frequency === 0) continue;
+      const df = index.documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      const norm = 1 - BM25_B + BM25_B * (length / (index.averageLength || 1));
+      score += idf * ((frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * norm));
+    }
+    return { passage, score };
+  });
+
+  return scored
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(entry => entry.passage);
+}
+
+// Best passages for each query, merged and back in note order
+export function searchPassagesForAll(index: PassageIndex, queries: string[], perQuery: number = 2): Passage[] {
+  const found = new Set(queries.flatMap(query => searchPassages(index, query, perQuery)));
+  return index.passages.filter(passage => found.has(passage));
+}
+
+export function formatPassages(passages: Passage[]): string {
+  return passages.map(passage => `[${passage.id}] from "${passage.sourceName}":\n${passage.text}`).join('\n\n');
+}
+
+export function toCitation(passage: Passage): NoteCitation {
+  return {
+    id: passage.id,
+    sourceId: passage.sourceId,
+    start: passage.start,
+    end: passage.end,
+    excerpt: passage.text,
+  };
+}
+
+// Finds a cited span in the current source text, following it if the notes were edited since
+export function locateCitation(citation: NoteCitation, source: NoteSource): Span | null {
+  const { text } = source;
+  if (text.slice(citation.start, citation.end).trim() === citation.excerpt) {
+    return { start: citation.start, end: citation.end };
+  }
+  const moved = text.indexOf(citation.excerpt);
+  return moved >= 0 ? { start: moved, end: moved + citation.excerpt.length } : null;
+}
+
+export const CITATION_LINK_PREFIX = '#cite-';
+
+// Rewrites [P1] / [P2, P4] markers as Markdown links the chat renders as citation chips
+export function linkCitations(content: string): string {
+  return content.replace(/\[(P\d+(?:\s*,\s*P\d+)*)\]/g, (_, ids: string) =>
+    ids.split(',').map(id => `[${id.trim()}](${CITATION_LINK_PREFIX}${id.trim()})`).join(' ')
+  );
+}
@@ -0,0 +1,45 @@
+// Near-duplicate detection for generated questions
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'of', 'in', 'on', 'to', 'is', 'are', 'was', 'what', 'which', 'and', 'or', 'for', 'by', 'with', 'does', 'do']);
+
+export function questionTokens(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(token => token && !STOP_WORDS.has(token))
+  );
+}
+
+// Jaccard similarity of the questions' content words, 0..1
+export function questionSimilarity(a: string, b: string): number {
+  const left = questionTokens(a);
+  const right = questionTokens(b);
+  if (left.size === 0 && right.size === 0) return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+
+  let shared = 0;
+  left.forEach(token => {
+    if (right.has(token)) shared++;
+  });
+  return shared / (left.size + right.size - shared);
+}
+
+export const DUPLICATE_THRESHOLD = 0.8;
+
+export function findNearDuplicate<T extends { question: string }>(
+  item: { question: string },
+  pool: T[],
+  threshold: number = DUPLICATE_THRESHOLD
+): T | undefined {
+  return pool.find(candidate => questionSimilarity(candidate.question, item.question) >= threshold);
+}
+
+// Keeps the first occurrence of each near-identical question
+export function dedupeByQuestion<T extends { question: string }>(items: T[], threshold: number = DUPLICATE_THRESHOLD): T[] {
+  const kept: T[] = [];
+  for (const item of items) {
+    if (!findNearDuplicate(item, kept, threshold)) kept.push(item);
+  }
+  return kept;
+}
@@ -0,0 +1,106 @@
+import type { Flashcard, ReviewGrade, ReviewState } from '../types';
+
+// SM-2 style scheduler for flashcard reviews
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+// SM-2 quality score per grade button
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 2,
+  hard: 3,
+  good: 4,
+  easy: 5
+};
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export function createReviewState(now: number = Date.now()): ReviewState {
+  return {
+    ease: DEFAULT_EASE,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    due: now
+  };
+}
+
+export function getReviewState(card: Flashcard, now: number = Date.now()): ReviewState {
+  return card.review ?? createReviewState(now);
+}
+
+export function withReviewState(cards: Flashcard[], now: number = Date.now()): Flashcard[] {
+  return cards.map(card => (card.review ? card : { ...card, review: createReviewState(now) }));
+}
+
+export function scheduleReview(state: ReviewState, grade: ReviewGrade, now: number = Date.now()): ReviewState {
+  const quality = GRADE_QUALITY[grade];
+  const ease = Math.max(
+    MIN_EASE,
+    state.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (grade === 'again') {
+    return {
+      ease,
+      interval: 0,
+      repetitions: 0,
+      lapses: state.repetitions > 0 ? state.lapses + 1 : state.lapses,
+      due: now + RELEARN_DELAY_MS,
+      lastReviewed: now
+    };
+  }
+
+  let interval: number;
+  if (state.repetitions === 0) {
+    interval = grade === 'easy' ? 4 : 1;
+  } else if (state.repetitions === 1) {
+    interval = grade === 'hard' ? 3 : grade === 'easy' ? 8 : 6;
+  } else if (grade === 'hard') {
+    interval = Math.max(state.interval + 1, Math.round(state.interval * 1.2));
+  } else if (grade === 'easy') {
+    interval = Math.round(state.interval * ease * 1.3);
+  } else {
+    interval = Math.round(state.interval * ease);
+  }
+
+  return {
+    ease,
+    interval,
+    repetitions: state.repetitions + 1,
+    lapses: state.lapses,
+    due: now + interval * DAY_MS,
+    lastReviewed: now
+  };
+}
+
+export function endOfDay(now: number = Date.now()): number {
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+}
+
+export function isDueToday(card: Flashcard, now: number = Date.now()): boolean {
+  return getReviewState(card, now).due <= endOfDay(now);
+}
+
+// Indices of cards due by the end of today, earliest due first
+export function getDueQueue(cards: Flashcard[], now: number = Date.now()): number[] {
+  return cards
+    .map((card, index) => ({ index, due: getReviewState(card, now).due }))
+    .filter(entry => entry.due <= endOfDay(now))
+    .sort((a, b) => a.due - b.due)
+    .map(entry => entry.index);
+}
+
+export function formatInterval(state: ReviewState, now: number = Date.now()): string {
+  const ms = Math.max(0, state.due - now);
+  if (ms < 60 * 60 * 1000) return `${Math.max(1, Math.round(ms / 60000))}m`;
+  if (ms < DAY_MS) return `${Math.round(ms / (60 * 60 * 1000))}h`;
+  const days = Math.round(ms / DAY_MS);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+}
@@ -0,0 +1,89 @@
+import { parseLenientJson } from './lenientJson';
+
+// Incremental reader for a JSON array of objects arriving token by token.
+// It finds the item array (bare, or the first array inside a wrapper object)
+// and hands over each object element as soon as its closing brace arrives,
+// long before the reply is complete. The full reply is still parsed properly
+// afterwards; this only drives the preview
+
+export interface JsonArrayStream {
+  push(delta: string): void;
+  readonly count: number; // elements emitted so far
+}
+
+export function createJsonArrayStream(onElement: (element: unknown, index: number) => void): JsonArrayStream {
+  let buffer = '';
+  let pos = 0;
+  let count = 0;
+
+  // Open brackets outside strings, outermost first
+  const stack: string[] = [];
+  let quote: string | null = null;
+  let escaped = false;
+  let previous = ''; // last non-space character outside strings
+  let arrayDepth = -1; // stack depth of the item array once found
+  let elementStart = -1;
+  let done = false;
+
+  const emit = (text: string) => {
+    try {
+      onElement(parseLenientJson(text).value, count);
+      count++;
+    } catch {
+      // Left for the full parse of the finished reply to deal with
+    }
+  };
+
+  const scan = () => {
+    for (; pos < buffer.length && !done; pos++) {
+      const char = buffer[pos];
+
+      if (quote) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === quote) {
+          quote = null;
+          previous = char;
+        }
+        continue;
+      }
+
+      // Quotes only open a string where JSON allows one, so apostrophes in prose are ignored
+      if ((char === '"' || char === "'") && stack.length > 0 && '[{,:'.includes(previous)) {
+        quote = char;
+      } else if (char === '[') {
+        // The item array is a bare top-level array or the first one directly inside a wrapper object
+        if (arrayDepth === -1 && (stack.length === 0 || (stack.length === 1 && stack[0] === '{'))) {
+          arrayDepth = stack.length + 1;
+        }
+        stack.push(char);
+      } else if (char === '{') {
+        stack.push(char);
+        if (arrayDepth !== -1 && stack.length === arrayDepth + 1) elementStart = pos;
+      } else if (char === '}' || char === ']') {
+        if (stack.length === 0) continue;
+        if (char === '}' && arrayDepth !== -1 && stack.length === arrayDepth + 1 && elementStart !== -1) {
+          emit(buffer.slice(elementStart, pos + 1));
+          elementStart = -1;
+        }
+        stack.pop();
+        // A bracket in the prose, such as a citation, is not the item array
+        if (arrayDepth !== -1 && stack.length < arrayDepth) {
+          if (count > 0) done = true;
+          else arrayDepth = -1;
+        }
+      }
+      if (!/\s/.test(char)) previous = char;
+    }
+  };
+
+  return {
+    push(delta: string) {
+      buffer += delta;
+      scan();
+    },
+    get count() {
+      return count;
+    },
+  };
+}
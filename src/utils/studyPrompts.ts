@@ -0,0 +1,181 @@
+import type { BloomLevel, Difficulty, GenerationOptions, MaterialType, MockQuestionType } from '../types';
+import type { WeakSpot } from './analytics';
+
+// Prompt templates for the study agent
+
+export const DEFAULT_ITEM_COUNTS: Record<MaterialType, number> = {
+  flashcards: 6,
+  mcqs: 8,
+  mocktest: 10,
+};
+
+export const DEFAULT_LANGUAGE = 'English';
+
+export function defaultGenerationOptions(type: MaterialType): GenerationOptions {
+  return {
+    count: DEFAULT_ITEM_COUNTS[type],
+    difficulty: 'mixed',
+    bloomLevel: 'mixed',
+    focusTopics: [],
+    language: DEFAULT_LANGUAGE,
+  };
+}
+
+export const DEFAULT_GENERATION_OPTIONS: Record<MaterialType, GenerationOptions> = {
+  flashcards: defaultGenerationOptions('flashcards'),
+  mcqs: defaultGenerationOptions('mcqs'),
+  mocktest: defaultGenerationOptions('mocktest'),
+};
+
+export const DIFFICULTY_DESCRIPTIONS: Record<Difficulty, string> = {
+  easy: 'straightforward recall of facts stated directly in the notes',
+  medium: 'requires connecting two or more ideas from the notes',
+  hard: 'challenging, exam-level questions with subtle distinctions and plausible distractors',
+  mixed: 'a balanced mix of easy, medium and hard questions',
+};
+
+export const BLOOM_DESCRIPTIONS: Record<BloomLevel, string> = {
+  remember: 'recall facts, terms and definitions',
+  understand: 'explain ideas or concepts in their own words',
+  apply: 'use the concepts in new, concrete situations',
+  analyze: 'break information apart and examine relationships',
+  evaluate: 'justify a decision or judge between alternatives',
+  create: 'combine ideas to produce something new',
+  mixed: 'cover a range of cognitive levels',
+};
+
+// Folds the user's generation options into prompt instructions
+export function describeGenerationOptions(options: Omit<GenerationOptions, 'count'>): string {
+  const lines = [
+    `Difficulty: ${options.difficulty} (${DIFFICULTY_DESCRIPTIONS[options.difficulty]}).`,
+    `Bloom's taxonomy level: ${options.bloomLevel} (${BLOOM_DESCRIPTIONS[options.bloomLevel]}).`,
+  ];
+  if (options.focusTopics.length > 0) {
+    lines.push(`Focus only on these topics: ${options.focusTopics.join(', ')}.`);
+  }
+  if (options.language.trim() && options.language.trim().toLowerCase() !== DEFAULT_LANGUAGE.toLowerCase()) {
+    lines.push(`Write every question, answer, option and explanation in ${options.language.trim()}. Keep the JSON field names in English.`);
+  }
+  return `\n\nRequirements:\n${lines.map(line => `- ${line}`).join('\n')}`;
+}
+
+// Common flaws in generated distractors, mirrored by the checks in itemQuality
+const OPTION_RULES = `
+
+For multiple choice questions:
+- Vary which option is correct; do not favour the first position.
+- Make every distractor plausible and close to the correct answer in length and style.
+- Never repeat an option or include two that mean the same thing.
+- Avoid "All of the above" and "None of the above".
+- Do not let the question's wording give the answer away.`;
+
+export interface StudyPromptOptions {
+  count: number;
+  // Difficulty, Bloom's level, topics and language
+  guidance?: Omit<GenerationOptions, 'count'>;
+  // Appended verbatim, e.g. source tagging rules
+  instructions?: string;
+  // Questions already generated elsewhere that must not be repeated
+  avoidQuestions?: string[];
+}
+
+export function buildStudyPrompt(type: MaterialType, notes: string, options: StudyPromptOptions): string {
+  const { count } = options;
+  let prompt: string;
+
+  switch (type) {
+    case 'flashcards':
+      prompt = `Create exactly ${count} flashcards in JSON format from these notes. Each flashcard must have a "question" and "answer" field. Notes: ${notes}
+
+Return ONLY this exact JSON format:
+[
+  {"question": "Q1", "answer": "A1"},
+  {"question": "Q2", "answer": "A2"}
+]`;
+      break;
+    case 'mcqs':
+      prompt = `Generate exactly ${count} multiple choice questions from these notes: ${notes}
+
+Format: Return ONLY a JSON array.
+[
+  {
+    "question": "Q1?",
+    "options": ["A", "B", "C", "D"],
+    "correctAnswer": "C"
+  }
+]
+No markdown, no explanations, just JSON.`;
+      break;
+    case 'mocktest':
+      prompt = `Generate exactly ${count} exam questions from these notes, mixing multiple choice, true/false and short-answer questions: ${notes}
+
+Format: Return ONLY a JSON array. Use "type" to mark each question as "mcq", "truefalse" or "short".
+[
+  {
+    "type": "mcq",
+    "question": "Q1?",
+    "options": ["A", "B", "C", "D"],
+    "correctAnswer": "C",
+    "explanation": "Because..."
+  },
+  {
+    "type": "truefalse",
+    "question": "Statement to judge.",
+    "options": ["True", "False"],
+    "correctAnswer": "False",
+    "explanation": "Because..."
+  },
+  {
+    "type": "short",
+    "question": "Q3?",
+    "options": [],
+    "correctAnswer": "Concise model answer",
+    "explanation": "Because..."
+  }
+]
+No markdown, no explanations, just JSON.`;
+      break;
+  }
+
+  if (type !== 'flashcards') {
+    prompt += OPTION_RULES;
+  }
+
+  if (options.guidance) {
+    prompt += describeGenerationOptions(options.guidance);
+  }
+
+  if (options.avoidQuestions && options.avoidQuestions.length > 0) {
+    prompt += `\n\nDo not repeat or rephrase any of these existing questions:\n${options.avoidQuestions.map(question => `- ${question}`).join('\n')}`;
+  }
+
+  return prompt + (options.instructions ?? '');
+}
+
+const QUESTION_TYPE_NAMES: Record<MockQuestionType, string> = {
+  mcq: 'multiple choice ("mcq")',
+  truefalse: 'true/false ("truefalse")',
+  short: 'short-answer ("short")',
+};
+
+// Asks for a stand-in for one item the student rejected
+export function buildReplacementInstruction(question: string, questionType?: MockQuestionType): string {
+  let instruction = `\n\nThis replaces an existing question the student was unhappy with: "${question}". Cover the same part of the notes with a clearer, better question, not a rewording of it.`;
+  if (questionType) instruction += ` It must be a ${QUESTION_TYPE_NAMES[questionType]} question.`;
+  return instruction;
+}
+
+// Turns past mistakes into targeted practice: new questions on the same
+// concepts, with the student's wrong answers reused as distractors
+export function buildWeakSpotInstruction(spots: WeakSpot[], weakTopics: string[] = []): string {
+  const lines = spots.map(spot => {
+    const wrong = spot.wrongAnswers.length > 0 ? ` (answered: ${spot.wrongAnswers.map(answer => `"${answer}"`).join(', ')})` : '';
+    return `- "${spot.question}"${wrong}, missed ${spot.misses} of ${spot.attempts} times`;
+  });
+  let instruction = `\n\nThis is a practice set for the student's weak spots. They previously got these questions wrong:\n${lines.join('\n')}`;
+  if (weakTopics.length > 0) {
+    instruction += `\nTheir weakest topics overall: ${weakTopics.join(', ')}.`;
+  }
+  instruction += '\n\nWrite new questions that test the same concepts from different angles: variations, applications and closely related facts that expose the same misunderstanding. Do not copy or merely reword the questions above. Where a wrong answer is listed, use it or the misconception behind it as a distractor.';
+  return instruction;
+}
@@ -0,0 +1,307 @@
+import type { Flashcard, MCQ, MaterialType, MockQuestionType, MockTestQuestion } from '../types';
+
+// Declarative schemas for agent-generated study items, with per-item
+// validation and normalization
+
+type FieldSpec =
+  | { kind: 'text'; required: boolean; aliases?: string[]; fallback?: string }
+  | { kind: 'options'; required: boolean; aliases?: string[]; minItems: number };
+
+interface ItemSchema<T> {
+  label: string;
+  containerKeys: string[];
+  fields: Record<string, FieldSpec>;
+  // Cross-field checks run after field normalization; return an error to reject
+  refine?: (item: Record<string, unknown>) => string | null;
+  build: (item: Record<string, unknown>) => T;
+}
+
+export interface RejectedItem {
+  index: number;
+  reason: string;
+  raw: unknown;
+}
+
+export interface ValidationResult<T> {
+  items: T[];
+  rejected: RejectedItem[];
+}
+
+const OPTION_LABEL = /^\s*(?:\(?([A-Ha-h])[).:]|([A-Ha-h])\s+-)\s+/;
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return null;
+}
+
+function normalizeOptions(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null;
+  const texts = value.map(normalizeText).filter((text): text is string => Boolean(text));
+
+  // Only strip "A)"-style labels when every option carries one, so "A. Lincoln" survives
+  const labelled = texts.length > 0 && texts.every(text => OPTION_LABEL.test(text));
+
+  const seen = new Set<string>();
+  const options: string[] = [];
+  for (const entry of texts) {
+    const text = labelled ? entry.replace(OPTION_LABEL, '').trim() : entry;
+    if (!text || seen.has(text.toLowerCase())) continue;
+    seen.add(text.toLowerCase());
+    options.push(text);
+  }
+  return options;
+}
+
+// Maps "B", "b)", "(B) Paris" or the option text itself onto the matching option
+export function resolveCorrectAnswer(answer: string, options: string[]): string | null {
+  const trimmed = answer.trim();
+  const exact = options.find(option => option.toLowerCase() === trimmed.toLowerCase());
+  if (exact) return exact;
+
+  const letterOnly = trimmed.match(/^\(?([A-Ha-h])\)?[).:]?$/);
+  if (letterOnly) {
+    return options[letterOnly[1].toUpperCase().charCodeAt(0) - 65] ?? null;
+  }
+
+  const labelled = trimmed.match(OPTION_LABEL);
+  if (labelled) {
+    const text = trimmed.replace(OPTION_LABEL, '').trim();
+    const byText = options.find(option => option.toLowerCase() === text.toLowerCase());
+    if (byText) return byText;
+    const letter = labelled[1] ?? labelled[2];
+    return options[letter.toUpperCase().charCodeAt(0) - 65] ?? null;
+  }
+
+  return null;
+}
+
+function readField(raw: Record<string, unknown>, key: string, spec: FieldSpec): unknown {
+  if (raw[key] !== undefined) return raw[key];
+  return spec.aliases?.map(alias => raw[alias]).find(value => value !== undefined);
+}
+
+function validateItem<T>(raw: unknown, schema: ItemSchema<T>): { item: T } | { error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: `Expected a ${schema.label} object` };
+  }
+
+  const source = raw as Record<string, unknown>;
+  const normalized: Record<string, unknown> = {};
+
+  for (const [key, spec] of Object.entries(schema.fields)) {
+    const value = readField(source, key, spec);
+
+    if (spec.kind === 'text') {
+      const text = normalizeText(value);
+      if (!text) {
+        if (spec.required) return { error: `Missing "${key}"` };
+        normalized[key] = spec.fallback ?? '';
+      } else {
+        normalized[key] = text;
+      }
+    } else {
+      const options = normalizeOptions(value);
+      if (!options) {
+        if (spec.required) return { error: `Missing "${key}" array` };
+        normalized[key] = [];
+      } else if (options.length < spec.minItems) {
+        return { error: `Needs at least ${spec.minItems} distinct ${key}, got ${options.length}` };
+      } else {
+        normalized[key] = options;
+      }
+    }
+  }
+
+  const refineError = schema.refine?.(normalized);
+  if (refineError) return { error: refineError };
+
+  return { item: schema.build(normalized) };
+}
+
+function refineCorrectAnswer(item: Record<string, unknown>): string | null {
+  const options = item.options as string[];
+  const resolved = resolveCorrectAnswer(item.correctAnswer as string, options);
+  if (!resolved) {
+    return `Correct answer "${item.correctAnswer}" is not one of the options`;
+  }
+  item.correctAnswer = resolved;
+  return null;
+}
+
+// Provenance label echoed by the agent when the notes have several sources
+const SOURCE_FIELD: FieldSpec = { kind: 'text', required: false, aliases: ['sourceLabel', 'source_label'] };
+
+function sourceOf(item: Record<string, unknown>): { source?: string } {
+  return item.source ? { source: item.source as string } : {};
+}
+
+// Topic names from the notes' outline; a list of strings, like options
+const TOPICS_FIELD: FieldSpec = { kind: 'options', required: false, aliases: ['tags', 'topic'], minItems: 0 };
+
+function topicsOf(item: Record<string, unknown>): { topics?: string[] } {
+  const topics = item.topics as string[];
+  return topics.length > 0 ? { topics } : {};
+}
+
+export const FLASHCARD_SCHEMA: ItemSchema<Flashcard> = {
+  label: 'flashcard',
+  containerKeys: ['flashcards', 'cards', 'items'],
+  fields: {
+    question: { kind: 'text', required: true, aliases: ['front', 'term', 'q'] },
+    answer: { kind: 'text', required: true, aliases: ['back', 'definition', 'a'] },
+    source: SOURCE_FIELD,
+    topics: TOPICS_FIELD,
+  },
+  build: item => ({
+    question: item.question as string,
+    answer: item.answer as string,
+    ...sourceOf(item),
+    ...topicsOf(item),
+  }),
+};
+
+export const MCQ_SCHEMA: ItemSchema<MCQ> = {
+  label: 'multiple choice question',
+  containerKeys: ['mcqs', 'questions', 'items'],
+  fields: {
+    question: { kind: 'text', required: true, aliases: ['prompt', 'q'] },
+    options: { kind: 'options', required: true, aliases: ['choices', 'answers'], minItems: 2 },
+    correctAnswer: { kind: 'text', required: true, aliases: ['answer', 'correct', 'correct_answer'] },
+    source: SOURCE_FIELD,
+    topics: TOPICS_FIELD,
+  },
+  refine: refineCorrectAnswer,
+  build: item => ({
+    question: item.question as string,
+    options: item.options as string[],
+    correctAnswer: item.correctAnswer as string,
+    ...sourceOf(item),
+    ...topicsOf(item),
+  }),
+};
+
+const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+function normalizeQuestionType(value: unknown): MockQuestionType | null {
+  const text = typeof value === 'string' ? value.toLowerCase().replace(/[^a-z]/g, '') : '';
+  if (!text) return null;
+  if (['mcq', 'multiplechoice', 'qmcq', 'choice'].includes(text)) return 'mcq';
+  if (['tf', 'truefalse', 'qtf', 'boolean'].includes(text)) return 'truefalse';
+  if (['short', 'shortanswer', 'qa', 'qqa', 'open', 'written'].includes(text)) return 'short';
+  return null;
+}
+
+function normalizeTrueFalse(answer: string): string | null {
+  const text = answer.trim().toLowerCase().replace(/[^a-z]/g, '');
+  if (['true', 't', 'yes', 'a'].includes(text)) return 'True';
+  if (['false', 'f', 'no', 'b'].includes(text)) return 'False';
+  return null;
+}
+
+function refineMockQuestion(item: Record<string, unknown>): string | null {
+  const options = item.options as string[];
+  const looksTrueFalse = options.length === 2 && options.every(option => /^(true|false)$/i.test(option));
+  const type = normalizeQuestionType(item.type)
+    ?? (options.length === 0 ? 'short' : looksTrueFalse ? 'truefalse' : 'mcq');
+  item.type = type;
+
+  if (type === 'short') {
+    item.options = [];
+    return null;
+  }
+
+  if (type === 'truefalse') {
+    const answer = normalizeTrueFalse(item.correctAnswer as string);
+    if (!answer) return `True/false answer "${item.correctAnswer}" is neither true nor false`;
+    item.options = TRUE_FALSE_OPTIONS;
+    item.correctAnswer = answer;
+    return null;
+  }
+
+  if (options.length < 2) {
+    return `Needs at least 2 distinct options, got ${options.length}`;
+  }
+  return refineCorrectAnswer(item);
+}
+
+export const MOCK_TEST_SCHEMA: ItemSchema<MockTestQuestion> = {
+  label: 'mock test question',
+  containerKeys: ['mockTest', 'mocktest', 'questions', 'items'],
+  fields: {
+    question: { kind: 'text', required: true, aliases: ['prompt', 'q'] },
+    type: { kind: 'text', required: false, aliases: ['questionType', 'question_type', 'kind'] },
+    options: { kind: 'options', required: false, aliases: ['choices', 'answers'], minItems: 0 },
+    correctAnswer: { kind: 'text', required: true, aliases: ['answer', 'correct', 'correct_answer', 'modelAnswer'] },
+    explanation: { kind: 'text', required: false, aliases: ['rationale', 'reason'], fallback: '' },
+    source: SOURCE_FIELD,
+    topics: TOPICS_FIELD,
+  },
+  refine: refineMockQuestion,
+  build: item => ({
+    question: item.question as string,
+    type: item.type as MockQuestionType,
+    options: item.options as string[],
+    correctAnswer: item.correctAnswer as string,
+    explanation: item.explanation as string,
+    ...sourceOf(item),
+    ...topicsOf(item),
+  }),
+};
+
+function unwrapItems(data: unknown, containerKeys: string[]): unknown[] | null {
+  if (Array.isArray(data)) return data;
+  if (data && typeof data === 'object') {
+    const record = data as Record<string, unknown>;
+    for (const key of containerKeys) {
+      if (Array.isArray(record[key])) return record[key] as unknown[];
+    }
+  }
+  return null;
+}
+
+export function validateItems<T>(data: unknown, schema: ItemSchema<T>): ValidationResult<T> {
+  const rawItems = unwrapItems(data, schema.containerKeys);
+  if (!rawItems) {
+    return {
+      items: [],
+      rejected: [{ index: -1, reason: `Expected an array of ${schema.label}s`, raw: data }],
+    };
+  }
+
+  const items: T[] = [];
+  const rejected: RejectedItem[] = [];
+  const seenQuestions = new Set<string>();
+
+  rawItems.forEach((raw, index) => {
+    const result = validateItem(raw, schema);
+    if ('error' in result) {
+      rejected.push({ index, reason: result.error, raw });
+      return;
+    }
+    const key = (result.item as { question: string }).question.toLowerCase();
+    if (seenQuestions.has(key)) {
+      rejected.push({ index, reason: 'Duplicate question', raw });
+      return;
+    }
+    seenQuestions.add(key);
+    items.push(result.item);
+  });
+
+  return { items, rejected };
+}
+
+export function validateStudyItems(type: 'flashcards', data: unknown): ValidationResult<Flashcard>;
+export function validateStudyItems(type: 'mcqs', data: unknown): ValidationResult<MCQ>;
+export function validateStudyItems(type: 'mocktest', data: unknown): ValidationResult<MockTestQuestion>;
+export function validateStudyItems(type: MaterialType, data: unknown): ValidationResult<Flashcard | MCQ | MockTestQuestion>;
+export function validateStudyItems(type: MaterialType, data: unknown): ValidationResult<Flashcard | MCQ | MockTestQuestion> {
+  switch (type) {
+    case 'flashcards':
+      return validateItems(data, FLASHCARD_SCHEMA);
+    case 'mcqs':
+      return validateItems(data, MCQ_SCHEMA);
+    case 'mocktest':
+      return validateItems(data, MOCK_TEST_SCHEMA);
+  }
+}
@@ -0,0 +1,50 @@
+import type { MaterialType, MockQuestionType } from '../types';
+import { parseQuizText } from './importers';
+import type { QuestionBlock } from './importers';
+import type { StudyItem } from './repairLoop';
+import { resolveCorrectAnswer } from './studySchema';
+
+// Last resort when the agent ignores "just JSON" and writes the quiz out as
+// text: numbered questions, lettered options, answer and explanation lines or a
+// Markdown table. Items still go through schema validation afterwards
+
+const TRUE_FALSE = /^(true|false)$/i;
+
+function questionType(block: QuestionBlock): MockQuestionType {
+  const stated = block.type?.toLowerCase() ?? '';
+  if (/true|false|t\/f/.test(stated)) return 'truefalse';
+  if (/short|open|written/.test(stated)) return 'short';
+  if (block.options.length === 2 && block.options.every(option => TRUE_FALSE.test(option))) return 'truefalse';
+  if (block.options.length === 0) return TRUE_FALSE.test(block.answer?.trim() ?? '') ? 'truefalse' : 'short';
+  return 'mcq';
+}
+
+// Letter answers ("B", "(b)", "B) Paris") become the option text
+function correctOption(block: QuestionBlock): string {
+  const answer = block.answer?.trim() ?? '';
+  return resolveCorrectAnswer(answer, block.options) ?? answer;
+}
+
+export function extractFromText(text: string, type: MaterialType): StudyItem[] {
+  const blocks = parseQuizText(text).filter(block => block.answer?.trim());
+
+  switch (type) {
+    case 'flashcards':
+      return blocks.map(block => ({ question: block.question, answer: block.options.length > 0 ? correctOption(block) : (block.answer as string) }));
+    case 'mcqs':
+      return blocks
+        .filter(block => block.options.length >= 2)
+        .map(block => ({ question: block.question, options: block.options, correctAnswer: correctOption(block) }));
+    case 'mocktest':
+      return blocks.map(block => {
+        const kind = questionType(block);
+        return {
+          question: block.question,
+          type: kind,
+          options: kind === 'short' ? [] : kind === 'truefalse' ? ['True', 'False'] : block.options,
+          correctAnswer: kind === 'mcq' ? correctOption(block) : (block.answer as string).trim(),
+          explanation: block.explanation ?? '',
+        };
+      });
+  }
+}
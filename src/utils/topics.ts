@@ -0,0 +1,265 @@
+import type { NoteSource, TermDefinition, Topic } from '../types';
+import { enabledSources } from './noteSources';
+import { buildPassageIndex, searchPassages } from './retrieval';
+import type { PassageIndex } from './retrieval';
+
+// Concept extraction over the notes: a topic outline from their headings, with
+// key terms and definitions per section, and topic tags for study items. It
+// runs locally on every edit, so it only reads the structure the notes have
+
+const MAX_KEY_TERMS = 8;
+const MAX_DEFINITIONS = 8;
+const MAX_DEFINITION_CHARS = 200;
+const MAX_TERM_WORDS = 5;
+// Text before the first heading becomes its own topic once it is this long
+const MIN_PREAMBLE_CHARS = 200;
+
+const SECTION_WORD = /^(?:chapter|unit|section|lecture|part|module|topic|lesson)\s+[\w.]+\s*[:.\-–—]?\s*(.*)$/i;
+
+interface Heading {
+  name: string;
+  level: number;
+  start: number; // offset of the heading line
+  bodyStart: number; // offset just after it
+}
+
+function cleanHeading(text: string): string {
+  return text.replace(/[*_`#]+/g, '').replace(/\s+/g, ' ').replace(/[:.]$/, '').trim();
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function headingOf(line: string, previous: string, next: string): { name: string; level: number } | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > 100 || /^--- Page \d+ ---$/.test(trimmed)) return null;
+
+  const markdown = trimmed.match(/^(#{1,6})\s+(.+)$/);
+  if (markdown) return { name: cleanHeading(markdown[2]), level: markdown[1].length };
+
+  const setext = next.trim().match(/^(=+|-+)$/);
+  if (setext && setext[1].length >= 3 && !/^[-*•]/.test(trimmed)) {
+    return { name: cleanHeading(trimmed), level: setext[1][0] === '=' ? 1 : 2 };
+  }
+
+  const section = trimmed.match(SECTION_WORD);
+  if (section && wordCount(trimmed) <= 12) return { name: cleanHeading(trimmed), level: 1 };
+
+  // "2.1 Enzymes"; a plain "1. Enzymes" only when it stands alone, not inside a list
+  const numbered = trimmed.match(/^(\d+(?:\.\d+)*)[.)]?\s+(\p{Lu}.*)$/u);
+  if (numbered && wordCount(numbered[2]) <= 10 && !/[.,;]$/.test(trimmed)) {
+    const depth = numbered[1].split('.').length;
+    const standalone = !previous.trim() && !/^\d+[.)]\s/.test(next.trim());
+    if (depth > 1 || standalone) return { name: cleanHeading(trimmed), level: depth };
+  }
+
+  // Short ALL CAPS lines
+  const letters = trimmed.replace(/[^\p{L}]/gu, '');
+  if (letters.length >= 4 && letters === letters.toUpperCase() && letters !== letters.toLowerCase() && wordCount(trimmed) <= 8) {
+    return { name: cleanHeading(trimmed.toLowerCase().replace(/(^|\s)\p{L}/gu, match => match.toUpperCase())), level: 1 };
+  }
+
+  return null;
+}
+
+function findHeadings(text: string): Heading[] {
+  const headings: Heading[] = [];
+  const lines = text.split('\n');
+  let offset = 0;
+  lines.forEach((line, i) => {
+    const heading = headingOf(line, lines[i - 1] ?? '', lines[i + 1] ?? '');
+    const isUnderline = i > 0 && /^(=+|-+)\s*$/.test(line.trim()) && headings[headings.length - 1]?.bodyStart === offset;
+    if (heading?.name) {
+      headings.push({ ...heading, start: offset, bodyStart: offset + line.length + 1 });
+    } else if (isUnderline) {
+      headings[headings.length - 1].bodyStart = offset + line.length + 1;
+    }
+    offset += line.length + 1;
+  });
+  return headings;
+}
+
+function definitionsIn(text: string): TermDefinition[] {
+  const definitions: TermDefinition[] = [];
+  const add = (term: string, definition: string) => {
+    const cleanTerm = cleanHeading(term);
+    const cleanDefinition = definition.replace(/\*\*/g, '').trim().replace(/[.;]$/, '');
+    if (!cleanTerm || wordCount(cleanTerm) > MAX_TERM_WORDS || cleanDefinition.length < 10) return;
+    if (definitions.some(existing => existing.term.toLowerCase() === cleanTerm.toLowerCase())) return;
+    definitions.push({
+      term: cleanTerm,
+      definition: cleanDefinition.length > MAX_DEFINITION_CHARS ? `${cleanDefinition.substring(0, MAX_DEFINITION_CHARS - 1)}…` : cleanDefinition,
+    });
+  };
+
+  for (const line of text.split('\n')) {
+    // "Osmosis: movement of water..." or "- **Osmosis** – movement of water..."
+    const glossary = line.match(/^\s*(?:[-*•]\s+)?(\*\*[^*]+\*\*|[\p{L}][\p{L}\p{N} '()-]{0,40}?)\s*(?::|\s[-–—]\s)\s*(.+)$/u);
+    if (glossary) {
+      add(glossary[1], glossary[2]);
+      continue;
+    }
+    for (const sentence of line.split(/(?<=[.!?])\s+/)) {
+      const defined = sentence.match(/^(?:(?:an?|the)\s+)?(\*\*[^*]+\*\*|[\p{L}][\p{L}\p{N} '-]{0,40}?)\s+(?:is defined as|refers to|is known as|is called|means)\s+(.+?)[.!?]?$/iu);
+      if (defined) add(defined[1], defined[2]);
+    }
+  }
+  return definitions.slice(0, MAX_DEFINITIONS);
+}
+
+// Bold terms, defined terms, then acronyms and capitalised phrases used more than once
+function keyTermsIn(text: string, definitions: TermDefinition[]): string[] {
+  const terms: string[] = [];
+  const add = (term: string) => {
+    const clean = cleanHeading(term);
+    if (clean && wordCount(clean) <= MAX_TERM_WORDS && !terms.some(existing => existing.toLowerCase() === clean.toLowerCase())) {
+      terms.push(clean);
+    }
+  };
+
+  for (const match of text.matchAll(/\*\*([^*\n]{2,60})\*\*|__([^_\n]{2,60})__/g)) add(match[1] ?? match[2]);
+  definitions.forEach(definition => add(definition.term));
+
+  const counts = new Map<string, number>();
+  for (const match of text.matchAll(/\b(?:[A-Z]{2,6}s?|\p{Lu}\p{Ll}+(?:\s+\p{Lu}\p{Ll}+)+)\b/gu)) {
+    // "The Krebs Cycle" at the start of a sentence is still "Krebs Cycle"
+    const phrase = match[0].replace(/^(?:The|A|An|This|These|Each|Every|In|On|Of)\s+/, '');
+    if (phrase.includes(' ') || /^[A-Z]{2,6}s?$/.test(phrase)) counts.set(phrase, (counts.get(phrase) ?? 0) + 1);
+  }
+  [...counts.entries()]
+    .filter(([, count]) => count > 1)
+    .sort((a, b) => b[1] - a[1])
+    .forEach(([term]) => add(term));
+
+  return terms.slice(0, MAX_KEY_TERMS);
+}
+
+function buildTopic(id: string, name: string, level: number, source: NoteSource, start: number, end: number): Topic {
+  const text = source.text.slice(start, end);
+  const definitions = definitionsIn(text);
+  return { id, name, level, sourceId: source.id, start, end, keyTerms: keyTermsIn(text, definitions), definitions };
+}
+
+export function extractTopicOutline(sources: NoteSource[]): Topic[] {
+  const outline: Topic[] = [];
+  const nextId = () => `t${outline.length + 1}`;
+
+  for (const source of enabledSources(sources)) {
+    const headings = findHeadings(source.text);
+    const firstHeading = headings[0]?.start ?? source.text.length;
+    if (headings.length === 0 || source.text.slice(0, firstHeading).trim().length >= MIN_PREAMBLE_CHARS) {
+      // Headingless notes, or an introduction before the first heading, are filed under the source
+      outline.push(buildTopic(nextId(), source.name, 1, source, 0, firstHeading));
+    }
+    headings.forEach((heading, i) => {
+      const end = headings[i + 1]?.start ?? source.text.length;
+      outline.push(buildTopic(nextId(), heading.name, heading.level, source, heading.bodyStart, end));
+    });
+  }
+
+  // Items are tagged by name, so repeated headings ("Summary") get told apart
+  const seen = new Map<string, number>();
+  return outline.map(topic => {
+    const key = topic.name.toLowerCase();
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+    return count === 1 ? topic : { ...topic, name: `${topic.name} (${count})` };
+  });
+}
+
+// A topic and the subtopics nested under it
+export function topicFamily(outline: Topic[], name: string): Topic[] {
+  const index = outline.findIndex(topic => topic.name === name);
+  if (index < 0) return [];
+  const root = outline[index];
+  const family = [root];
+  for (const topic of outline.slice(index + 1)) {
+    if (topic.sourceId !== root.sourceId || topic.level <= root.level) break;
+    family.push(topic);
+  }
+  return family;
+}
+
+// The sources cut down to the given topics and their subtopics, for drilling one chapter
+export function topicSources(sources: NoteSource[], outline: Topic[], names: string[]): NoteSource[] {
+  const selected = new Set(names.flatMap(name => topicFamily(outline, name)));
+  return sources
+    .map(source => ({
+      ...source,
+      text: outline
+        .filter(topic => selected.has(topic) && topic.sourceId === source.id)
+        .map(topic => `${'#'.repeat(Math.min(6, topic.level))} ${topic.name}\n${source.text.slice(topic.start, topic.end).trim()}`)
+        .join('\n\n'),
+    }))
+    .filter(source => source.text.trim());
+}
+
+// Maps names echoed by the agent or typed by the user onto outline topics
+export function resolveTopicNames(names: string[], outline: Topic[]): string[] {
+  const resolved = names.map(name => {
+    const wanted = name.trim().toLowerCase();
+    if (!wanted) return undefined;
+    return (
+      outline.find(topic => topic.name.toLowerCase() === wanted) ??
+      outline.find(topic => topic.name.toLowerCase().includes(wanted) || wanted.includes(topic.name.toLowerCase()))
+    )?.name;
+  });
+  return Array.from(new Set(resolved.filter((name): name is string => Boolean(name))));
+}
+
+export function topicTaggingInstruction(outline: Topic[]): string {
+  if (outline.length < 2) return '';
+  const names = outline.map(topic => `"${topic.name}"`).join(', ');
+  return `\n\nThe notes cover these topics: ${names}. Every item must also include a "topics" array with the one or two topics from this list it tests.`;
+}
+
+export interface TopicMatcher {
+  outline: Topic[];
+  index: PassageIndex;
+}
+
+// One pseudo-source per topic, so BM25 can say which section an item is about
+export function buildTopicMatcher(outline: Topic[], sources: NoteSource[]): TopicMatcher {
+  const texts = new Map(sources.map(source => [source.id, source.text]));
+  const sections: NoteSource[] = outline.map(topic => ({
+    id: topic.id,
+    name: topic.name,
+    kind: 'text',
+    text: `${topic.name}\n${topic.keyTerms.join(', ')}\n${texts.get(topic.sourceId)?.slice(topic.start, topic.end) ?? ''}`,
+    enabled: true,
+    addedAt: 0,
+  }));
+  return { outline, index: buildPassageIndex(sections) };
+}
+
+function itemText(item: { question: string; answer?: string; correctAnswer?: string; options?: string[] }): string {
+  return [item.question, item.answer, item.correctAnswer, ...(item.options ?? [])].filter(Boolean).join(' ');
+}
+
+// Tags the agent gave that match the outline, otherwise the closest section
+export function itemTopics(item: { question: string; topics?: string[] }, matcher: TopicMatcher): string[] {
+  if (matcher.outline.length === 0) return [];
+  const tagged = resolveTopicNames(item.topics ?? [], matcher.outline);
+  if (tagged.length > 0) return tagged;
+  const best = searchPassages(matcher.index, itemText(item), 1)[0];
+  const topic = best && matcher.outline.find(entry => entry.id === best.sourceId);
+  return topic ? [topic.name] : [];
+}
+
+export function tagItemsWithTopics<T extends { question: string; topics?: string[] }>(items: T[], matcher: TopicMatcher): T[] {
+  if (matcher.outline.length === 0) return items;
+  return items.map(item => {
+    const topics = itemTopics(item, matcher);
+    if (topics.length > 0) return { ...item, topics };
+    const untagged = { ...item };
+    delete untagged.topics;
+    return untagged;
+  });
+}
+
+export function matchesTopic(item: { question: string; topics?: string[] }, matcher: TopicMatcher, name: string | null): boolean {
+  if (!name) return true;
+  const family = new Set(topicFamily(matcher.outline, name).map(topic => topic.name));
+  return itemTopics(item, matcher).some(topic => family.has(topic));
+}